@@ -291,7 +291,7 @@ pasteBtn.addEventListener('click', async () => {
       currentPath === '/' ? `/${fileName}` : `${currentPath}/${fileName}`;
 
     if (clipboard.type === 'copy') {
-      await copyPath(clipboard.path, destPath);
+      await fs.promises.cp(clipboard.path, destPath, { recursive: true });
       alert('复制成功');
       try {
         await sorter.onEntriesAdded(currentPath, [fileName]);
@@ -945,24 +945,6 @@ async function listUIItems(dir: string): Promise<UIItem[]> {
   }
 }
 
-async function copyPath(src: string, dest: string): Promise<void> {
-  const st = await fs.promises.stat(src);
-  if (st.isDirectory()) {
-    await fs.promises.mkdir(dest, { recursive: true });
-    const dirents = await fs.promises.readdir(src, {
-      withFileTypes: true,
-    });
-    for (const d of dirents) {
-      const name = d.name as string;
-      const childSrc = src === '/' ? `/${name}` : `${src}/${name}`;
-      const childDest = dest === '/' ? `/${name}` : `${dest}/${name}`;
-      await copyPath(childSrc, childDest);
-    }
-  } else {
-    await fs.promises.copyFile(src, dest);
-  }
-}
-
 // Recursively calculate the size of a directory. Skips symlinks to avoid cycles.
 async function dirSizeRecursive(target: string): Promise<number> {
   try {
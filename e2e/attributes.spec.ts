@@ -0,0 +1,127 @@
+import { test, expect } from '@playwright/test';
+import { resolve } from 'path';
+
+// Vite serves files outside the demo root through /@fs/
+const libUrl = `/file-system-browser/@fs${resolve('src/index.ts')}`;
+
+test.describe('File attributes', () => {
+  test('should not lose appends or modes when chmod races writers', async ({
+    page,
+  }) => {
+    await page.goto('/file-system-browser/');
+    const dbName = 'ChmodRaceTestDB-' + Date.now();
+
+    const result = await page.evaluate(
+      async ({ libUrl, dbName }) => {
+        const { createFs } = await import(/* @vite-ignore */ libUrl);
+        const fs = createFs({ name: dbName });
+        const p = fs.promises;
+        await p.writeFile('/log.txt', '');
+        await p.link('/log.txt', '/twin.txt');
+
+        // every write rewrites the entry; none may bring back the old mode
+        const modes: number[] = [];
+        const jobs: Promise<unknown>[] = [];
+        for (let i = 0; i < 10; i++) {
+          modes.push(0o600 + i);
+          jobs.push(p.appendFile('/log.txt', 'a'));
+          jobs.push(p.chmod('/twin.txt', 0o600 + i));
+          jobs.push(p.appendFile('/twin.txt', 'b'));
+          jobs.push(p.chown('/log.txt', -1, -1));
+        }
+        await Promise.all(jobs);
+
+        const text = await p.readFile('/log.txt', 'utf8');
+        const { mode } = await p.stat('/twin.txt');
+        return { length: text.length, mode: mode & 0o777, modes };
+      },
+      { libUrl, dbName }
+    );
+
+    expect(result.length).toBe(20);
+    expect(result.modes).toContain(result.mode);
+  });
+
+  test('should keep utimes, reads and new names from undoing other changes', async ({
+    page,
+  }) => {
+    await page.goto('/file-system-browser/');
+    const dbName = 'TimesRaceTestDB-' + Date.now();
+
+    const result = await page.evaluate(
+      async ({ libUrl, dbName }) => {
+        const { createFs } = await import(/* @vite-ignore */ libUrl);
+        const fs = createFs({ name: dbName });
+        const p = fs.promises;
+        await p.mkdir('/d');
+        await p.writeFile('/d/log.txt', '');
+        const old = Date.now() / 1000 - 7 * 24 * 3600;
+
+        const modes: number[] = [];
+        const jobs: Promise<unknown>[] = [];
+        for (let i = 0; i < 10; i++) {
+          modes.push(0o700 + i);
+          jobs.push(p.appendFile('/d/log.txt', 'a'));
+          jobs.push(p.utimes('/d/log.txt', old, old));
+          // the atime is a week old: every read wants to update it
+          jobs.push(p.readFile('/d/log.txt'));
+          jobs.push(p.chmod('/d/log.txt', 0o600 + i));
+          // adding a name rewrites the times of /d
+          jobs.push(p.writeFile(`/d/new${i}.txt`, ''));
+          jobs.push(p.chmod('/d', 0o700 + i));
+        }
+        await Promise.all(jobs);
+
+        const text = await p.readFile('/d/log.txt', 'utf8');
+        const file = await p.stat('/d/log.txt');
+        const dir = await p.stat('/d');
+        return {
+          length: text.length,
+          fileMode: file.mode & 0o777,
+          dirMode: dir.mode & 0o777,
+          modes,
+        };
+      },
+      { libUrl, dbName }
+    );
+
+    expect(result.length).toBe(10);
+    expect(result.modes).toContain(result.dirMode);
+    expect(result.modes.map((m) => m - 0o100)).toContain(result.fileMode);
+  });
+
+  test('should keep a chmod on the parent of new dirs, links and copies', async ({
+    page,
+  }) => {
+    await page.goto('/file-system-browser/');
+    const dbName = 'CreateRaceTestDB-' + Date.now();
+
+    const result = await page.evaluate(
+      async ({ libUrl, dbName }) => {
+        const { createFs } = await import(/* @vite-ignore */ libUrl);
+        const fs = createFs({ name: dbName });
+        const p = fs.promises;
+        await p.mkdir('/d');
+        await p.writeFile('/src.txt', 'x');
+
+        // each new name rewrites the times of /d, never its mode
+        const jobs: Promise<unknown>[] = [];
+        for (let i = 0; i < 10; i++) {
+          jobs.push(p.mkdir(`/d/m${i}/deep`, { recursive: true }));
+          jobs.push(p.symlink('/src.txt', `/d/l${i}`));
+          jobs.push(p.cp('/src.txt', `/d/c${i}/copy.txt`));
+          if (i === 5) jobs.push(p.chmod('/d', 0o711));
+        }
+        await Promise.all(jobs);
+
+        const names = await p.readdir('/d');
+        const { mode } = await p.stat('/d');
+        return { count: names.length, mode: mode & 0o777 };
+      },
+      { libUrl, dbName }
+    );
+
+    expect(result.count).toBe(30);
+    expect(result.mode).toBe(0o711);
+  });
+});
@@ -0,0 +1,86 @@
+import { test, expect } from '@playwright/test';
+import { resolve } from 'path';
+
+// Vite serves files outside the demo root through /@fs/
+const libUrl = `/file-system-browser/@fs${resolve('src/index.ts')}`;
+
+test.describe('fs.promises.batch', () => {
+  test('should apply every op and emit watch events after commit', async ({
+    page,
+  }) => {
+    await page.goto('/file-system-browser/');
+    const dbName = 'BatchCommitTestDB-' + Date.now();
+
+    const result = await page.evaluate(
+      async ({ libUrl, dbName }) => {
+        const { createFs } = await import(/* @vite-ignore */ libUrl);
+        const fs = createFs({ name: dbName });
+        await fs.promises.mkdir('/old');
+        await fs.promises.writeFile('/old/app.js', 'v1');
+
+        const events: string[] = [];
+        fs.watch('/old/app.js', (type: string, name: string) =>
+          events.push(`${type}:${name}`)
+        );
+        const pending = fs.promises.batch([
+          { op: 'mkdir', path: '/tmp-build', recursive: true },
+          { op: 'writeFile', path: '/tmp-build/manifest.json', data: '{}' },
+          { op: 'rm', path: '/old', recursive: true },
+          { op: 'rename', oldPath: '/tmp-build', newPath: '/app' },
+          { op: 'symlink', target: 'app/manifest.json', path: '/current' },
+        ]);
+        const beforeCommit = events.length;
+        await pending;
+        const root = (await fs.promises.readdir('/')).sort();
+        const manifest = await fs.promises.readFile('/current', 'utf8');
+        return { beforeCommit, events: events.length, root, manifest };
+      },
+      { libUrl, dbName }
+    );
+
+    expect(result.beforeCommit).toBe(0);
+    expect(result.events).toBeGreaterThan(0);
+    expect(result.root).toEqual(['app', 'current']);
+    expect(result.manifest).toBe('{}');
+  });
+
+  test('should roll back every op when one fails', async ({ page }) => {
+    await page.goto('/file-system-browser/');
+    const dbName = 'BatchRollbackTestDB-' + Date.now();
+
+    const result = await page.evaluate(
+      async ({ libUrl, dbName }) => {
+        const { createFs } = await import(/* @vite-ignore */ libUrl);
+        const fs = createFs({ name: dbName });
+        await fs.promises.mkdir('/data');
+        await fs.promises.writeFile('/data/a.txt', 'original');
+
+        const events: string[] = [];
+        fs.watch('/data/a.txt', (type: string, name: string) =>
+          events.push(`${type}:${name}`)
+        );
+        let code: string | undefined;
+        try {
+          await fs.promises.batch([
+            { op: 'writeFile', path: '/data/a.txt', data: 'changed' },
+            { op: 'writeFile', path: '/data/b.txt', data: 'new' },
+            { op: 'rename', oldPath: '/data/a.txt', newPath: '/data/c.txt' },
+            // fails: the source is gone
+            { op: 'rm', path: '/missing' },
+          ]);
+        } catch (e) {
+          code = (e as { code?: string }).code;
+        }
+        const names = await fs.promises.readdir('/data');
+        const text = await fs.promises.readFile('/data/a.txt', 'utf8');
+        return { code, names, text, events };
+      },
+      { libUrl, dbName }
+    );
+
+    expect(result.code).toBe('ENOENT');
+    expect(result.names).toEqual(['a.txt']);
+    expect(result.text).toBe('original');
+    expect(result.events).toEqual([]);
+  });
+});
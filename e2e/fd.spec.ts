@@ -0,0 +1,131 @@
+import { test, expect } from '@playwright/test';
+import { resolve } from 'path';
+
+// Vite serves files outside the demo root through /@fs/
+const libUrl = `/file-system-browser/@fs${resolve('src/index.ts')}`;
+
+test.describe('File descriptors', () => {
+  test('should keep reading and writing a file after unlink', async ({
+    page,
+  }) => {
+    await page.goto('/file-system-browser/');
+    const dbName = 'FdUnlinkTestDB-' + Date.now();
+
+    const result = await page.evaluate(
+      async ({ libUrl, dbName }) => {
+        const { createFs } = await import(/* @vite-ignore */ libUrl);
+        const fs = createFs({ name: dbName });
+        const p = fs.promises;
+        await p.writeFile('/log.txt', 'first');
+
+        const handle = await p.open('/log.txt', 'r+');
+        await p.unlink('/log.txt');
+        // a new file under the old name has nothing to do with the fd
+        await p.writeFile('/log.txt', 'other');
+        await handle.write(' second', 5);
+        const text = await handle.readFile('utf8');
+        const { nlink, size } = await handle.stat();
+        await handle.close();
+        const atPath = await p.readFile('/log.txt', 'utf8');
+        return { text, nlink, size, atPath };
+      },
+      { libUrl, dbName }
+    );
+
+    expect(result.text).toBe('first second');
+    expect(result.nlink).toBe(0);
+    expect(result.size).toBe(12);
+    expect(result.atPath).toBe('other');
+  });
+
+  test('should follow renames and reclaim content on last close', async ({
+    page,
+  }) => {
+    await page.goto('/file-system-browser/');
+    const dbName = 'FdReclaimTestDB-' + Date.now();
+
+    const result = await page.evaluate(
+      async ({ libUrl, dbName }) => {
+        const request = <T>(req: IDBRequest<T>) =>
+          new Promise<T>((resolve, reject) => {
+            req.onsuccess = () => resolve(req.result);
+            req.onerror = () => reject(req.error);
+          });
+        const countChunks = async () => {
+          const db = await request(indexedDB.open(dbName));
+          const count = await request(
+            db.transaction('chunks').objectStore('chunks').count()
+          );
+          db.close();
+          return count;
+        };
+
+        const { createFs } = await import(/* @vite-ignore */ libUrl);
+        const fs = createFs({ name: dbName });
+        const p = fs.promises;
+        await p.mkdir('/dir');
+        await p.writeFile('/dir/a.txt', 'moving');
+
+        const handle = await p.open('/dir/a.txt', 'r');
+        await p.rename('/dir', '/moved');
+        const renamed = await handle.readFile('utf8');
+
+        const other = await p.open('/moved/a.txt', 'r');
+        await p.rm('/moved', { recursive: true });
+        const whileOpen = await countChunks();
+        await handle.close();
+        const afterFirstClose = await countChunks();
+        await other.close();
+        const afterLastClose = await countChunks();
+        return { renamed, whileOpen, afterFirstClose, afterLastClose };
+      },
+      { libUrl, dbName }
+    );
+
+    expect(result.renamed).toBe('moving');
+    expect(result.whileOpen).toBe(1);
+    expect(result.afterFirstClose).toBe(1);
+    expect(result.afterLastClose).toBe(0);
+  });
+
+  test('should not lose fd writes to fchmod, fchown or futimes', async ({
+    page,
+  }) => {
+    await page.goto('/file-system-browser/');
+    const dbName = 'FdAttributesTestDB-' + Date.now();
+
+    const result = await page.evaluate(
+      async ({ libUrl, dbName }) => {
+        const { createFs } = await import(/* @vite-ignore */ libUrl);
+        const fs = createFs({ name: dbName });
+        const p = fs.promises;
+        await p.writeFile('/a.txt', '');
+        await p.writeFile('/b.txt', '');
+
+        const sizes: number[] = [];
+        // one fd on a named file, one on a file unlinked while open
+        for (const [path, unlink] of [
+          ['/a.txt', false],
+          ['/b.txt', true],
+        ] as const) {
+          const handle = await p.open(path, 'a+');
+          if (unlink) await p.unlink(path);
+          const jobs: Promise<unknown>[] = [];
+          for (let i = 0; i < 10; i++) {
+            jobs.push(handle.write('x'));
+            jobs.push(handle.chmod(0o600 + i));
+            jobs.push(handle.chown(-1, -1));
+            jobs.push(handle.utimes(1, 1));
+          }
+          await Promise.all(jobs);
+          sizes.push((await handle.stat()).size);
+          await handle.close();
+        }
+        return { sizes };
+      },
+      { libUrl, dbName }
+    );
+
+    expect(result.sizes).toEqual([10, 10]);
+  });
+});
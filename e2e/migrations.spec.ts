@@ -0,0 +1,162 @@
+import { test, expect } from '@playwright/test';
+import { resolve } from 'path';
+
+// Vite serves files outside the demo root through /@fs/
+const libUrl = `/file-system-browser/@fs${resolve('src/index.ts')}`;
+
+test.describe('Schema migrations', () => {
+  test('should upgrade a v1 FileSystemDB to the latest version', async ({
+    page,
+  }) => {
+    await page.goto('/file-system-browser/');
+    const dbName = 'MigrationTestDB-' + Date.now();
+
+    const result = await page.evaluate(
+      async ({ libUrl, dbName }) => {
+        const request = <T>(req: IDBRequest<T>) =>
+          new Promise<T>((resolve, reject) => {
+            req.onsuccess = () => resolve(req.result);
+            req.onerror = () => reject(req.error);
+          });
+
+        // v1 layout: one `files` store holding metadata and inline content
+        const open = indexedDB.open(dbName, 1);
+        open.onupgradeneeded = () => {
+          const store = open.result.createObjectStore('files', {
+            keyPath: 'path',
+          });
+          store.createIndex('parentPath', 'parentPath', { unique: false });
+          store.createIndex('type', 'type', { unique: false });
+        };
+        const v1 = await request(open);
+        const tx = v1.transaction('files', 'readwrite');
+        const files = tx.objectStore('files');
+        const now = Date.now();
+        const base = { createdAt: now, modifiedAt: now };
+        files.put({
+          ...base,
+          path: '/',
+          name: '',
+          type: 'directory',
+          size: 0,
+          parentPath: '',
+        });
+        files.put({
+          ...base,
+          path: '/docs',
+          name: 'docs',
+          type: 'directory',
+          size: 0,
+          parentPath: '/',
+        });
+        files.put({
+          ...base,
+          path: '/docs/a.txt',
+          name: 'a.txt',
+          type: 'file',
+          size: 5,
+          content: new TextEncoder().encode('hello').buffer,
+          parentPath: '/docs',
+        });
+        await new Promise((resolve) => (tx.oncomplete = resolve));
+        v1.close();
+
+        const { createFs } = await import(/* @vite-ignore */ libUrl);
+        const fs = createFs({ name: dbName });
+        const names = await fs.promises.readdir('/docs');
+        const text = await fs.promises.readFile('/docs/a.txt', 'utf8');
+        await fs.promises.link('/docs/a.txt', '/docs/b.txt');
+        await fs.promises.appendFile('/docs/b.txt', '!');
+        const linked = await fs.promises.readFile('/docs/a.txt', 'utf8');
+
+        const latest = await request(indexedDB.open(dbName));
+        const stores = Array.from(latest.objectStoreNames);
+        const indexes = Array.from(
+          latest.transaction('files').objectStore('files').indexNames
+        );
+        const version = latest.version;
+        latest.close();
+        return { names, text, linked, stores, indexes, version };
+      },
+      { libUrl, dbName }
+    );
+
+    expect(result.names).toEqual(['a.txt']);
+    expect(result.text).toBe('hello');
+    expect(result.linked).toBe('hello!');
+    expect(result.stores).toEqual(['chunks', 'files']);
+    expect(result.indexes).toEqual(['hardLinkKey', 'parentPath', 'type']);
+    expect(result.version).toBe(4);
+  });
+
+  test('should not block an upgrade started by another tab', async ({
+    page,
+  }) => {
+    await page.goto('/file-system-browser/');
+    const dbName = 'VersionChangeTestDB-' + Date.now();
+
+    const result = await page.evaluate(
+      async ({ libUrl, dbName }) => {
+        const { createFs } = await import(/* @vite-ignore */ libUrl);
+        const fs = createFs({ name: dbName });
+        await fs.promises.writeFile('/a.txt', 'data');
+
+        // a newer build opening the same database at a higher version
+        let blocked = false;
+        const upgrade = indexedDB.open(dbName, 100);
+        upgrade.onblocked = () => (blocked = true);
+        const db = await new Promise<IDBDatabase>((resolve, reject) => {
+          upgrade.onsuccess = () => resolve(upgrade.result);
+          upgrade.onerror = () => reject(upgrade.error);
+        });
+        const version = db.version;
+        db.close();
+        return { blocked, version };
+      },
+      { libUrl, dbName }
+    );
+
+    expect(result.blocked).toBe(false);
+    expect(result.version).toBe(100);
+  });
+
+  test('should fail instead of hanging when an old tab blocks the upgrade', async ({
+    page,
+  }) => {
+    await page.goto('/file-system-browser/');
+    const dbName = 'BlockedUpgradeTestDB-' + Date.now();
+
+    const result = await page.evaluate(
+      async ({ libUrl, dbName }) => {
+        const request = <T>(req: IDBRequest<T>) =>
+          new Promise<T>((resolve, reject) => {
+            req.onsuccess = () => resolve(req.result);
+            req.onerror = () => reject(req.error);
+          });
+
+        // an old build that ignores versionchange and keeps its connection
+        const open = indexedDB.open(dbName, 1);
+        open.onupgradeneeded = () =>
+          open.result.createObjectStore('files', { keyPath: 'path' });
+        const old = await request(open);
+
+        const { createFs } = await import(/* @vite-ignore */ libUrl);
+        const fs = createFs({ name: dbName });
+        const code = await fs.promises.readdir('/').then(
+          () => 'ok',
+          (e: { code?: string }) => e.code
+        );
+
+        // once the old tab is gone the volume opens on the next call
+        old.close();
+        await fs.promises.writeFile('/a.txt', 'data');
+        const text = await fs.promises.readFile('/a.txt', 'utf8');
+        return { code, text };
+      },
+      { libUrl, dbName }
+    );
+
+    expect(result.code).toBe('EBUSY');
+    expect(result.text).toBe('data');
+  });
+});
@@ -0,0 +1,88 @@
+import { test, expect } from '@playwright/test';
+import { resolve } from 'path';
+
+// Vite serves files outside the demo root through /@fs/
+const libUrl = `/file-system-browser/@fs${resolve('src/index.ts')}`;
+
+test.describe('open() flags', () => {
+  test('should follow the Node flag table', async ({ page }) => {
+    await page.goto('/file-system-browser/');
+    const dbName = 'OpenFlagsTestDB-' + Date.now();
+
+    const result = await page.evaluate(
+      async ({ libUrl, dbName }) => {
+        const { createFs } = await import(/* @vite-ignore */ libUrl);
+        const fs = createFs({ name: dbName });
+        const p = fs.promises;
+        const code = (promise: Promise<unknown>) =>
+          promise.then(
+            () => 'ok',
+            (e: { code?: string }) => e.code
+          );
+        await p.writeFile('/f.txt', 'hello');
+
+        // wx: exclusive create
+        const wxExisting = await code(p.open('/f.txt', 'wx'));
+        const wx = await p.open('/new.txt', 'wx');
+        await wx.write('created');
+        await wx.close();
+
+        // w: truncate
+        const w = await p.open('/new.txt', 'w');
+        await w.close();
+        const truncated = await p.readFile('/new.txt', 'utf8');
+
+        // a: every write lands at the end, whatever the position
+        const a = await p.open('/f.txt', 'a');
+        await a.write(' world', 0);
+        await a.close();
+        const appended = await p.readFile('/f.txt', 'utf8');
+
+        // r+: read and write in place, no create
+        const rPlusMissing = await code(p.open('/missing.txt', 'r+'));
+        const rPlus = await p.open('/f.txt', 'r+');
+        await rPlus.write('J', 0);
+        const { bytesRead, buffer } = await rPlus.read(
+          new Uint8Array(5),
+          0,
+          5,
+          0
+        );
+        await rPlus.close();
+        const readBack = new TextDecoder().decode(buffer.slice(0, bytesRead));
+
+        // r: read-only, writes fail with EBADF
+        const r = await p.open('/f.txt', 'r');
+        const writeThroughR = await code(r.write('x', 0));
+        await r.close();
+
+        // numeric O_* flags
+        const { O_WRONLY, O_CREAT, O_EXCL } = fs.constants;
+        const numeric = await code(
+          p.open('/f.txt', O_WRONLY | O_CREAT | O_EXCL)
+        );
+        const final = await p.readFile('/f.txt', 'utf8');
+        return {
+          wxExisting,
+          truncated,
+          appended,
+          rPlusMissing,
+          readBack,
+          writeThroughR,
+          numeric,
+          final,
+        };
+      },
+      { libUrl, dbName }
+    );
+
+    expect(result.wxExisting).toBe('EEXIST');
+    expect(result.truncated).toBe('');
+    expect(result.appended).toBe('hello world');
+    expect(result.rPlusMissing).toBe('ENOENT');
+    expect(result.readBack).toBe('Jello');
+    expect(result.writeThroughR).toBe('EBADF');
+    expect(result.numeric).toBe('EEXIST');
+    expect(result.final).toBe('Jello world');
+  });
+});
@@ -0,0 +1,81 @@
+import { test, expect } from '@playwright/test';
+import { resolve } from 'path';
+
+// Vite serves files outside the demo root through /@fs/
+const libUrl = `/file-system-browser/@fs${resolve('src/index.ts')}`;
+
+// CHUNK_SIZE of src/db.ts
+const CHUNK_SIZE = 256 * 1024;
+
+test.describe('Positional writes', () => {
+  test('should patch a range across a chunk boundary', async ({ page }) => {
+    await page.goto('/file-system-browser/');
+    const dbName = 'RangeWriteTestDB-' + Date.now();
+
+    const result = await page.evaluate(
+      async ({ libUrl, dbName, CHUNK_SIZE }) => {
+        const request = <T>(req: IDBRequest<T>) =>
+          new Promise<T>((resolve, reject) => {
+            req.onsuccess = () => resolve(req.result);
+            req.onerror = () => reject(req.error);
+          });
+        const chunkSizes = async () => {
+          const db = await request(indexedDB.open(dbName));
+          const chunks = await request(
+            db.transaction('chunks').objectStore('chunks').getAll()
+          );
+          db.close();
+          return (chunks as Array<{ data: ArrayBuffer }>).map(
+            (c) => c.data.byteLength
+          );
+        };
+
+        const { createFs } = await import(/* @vite-ignore */ libUrl);
+        const fs = createFs({ name: dbName });
+        const p = fs.promises;
+        const size = CHUNK_SIZE * 2 + 100;
+        const original = new Uint8Array(size);
+        for (let i = 0; i < size; i++) original[i] = i % 251;
+        await p.writeFile('/big.bin', original);
+        await p.link('/big.bin', '/twin.bin');
+
+        // 10 bytes straddling the end of the first chunk
+        const patch = new Uint8Array(10).fill(0xff);
+        const at = CHUNK_SIZE - 5;
+        const handle = await p.open('/big.bin', 'r+');
+        await handle.write(patch, 0, patch.length, at);
+        await handle.close();
+
+        const expected = original.slice();
+        expected.set(patch, at);
+        const through = async (path: string) => {
+          const bytes = new Uint8Array(await p.readFile(path));
+          return (
+            bytes.length === expected.length &&
+            bytes.every((b, i) => b === expected[i])
+          );
+        };
+        const intact = await through('/big.bin');
+        const sibling = await through('/twin.bin');
+        const chunks = await chunkSizes();
+
+        // a write past the end leaves a hole that reads back as zeros
+        await p.appendFile('/big.bin', 'tail');
+        const sparse = await p.open('/big.bin', 'r+');
+        await sparse.write('end', size + 10);
+        const gap = new Uint8Array(6);
+        await sparse.read(gap, 0, 6, size + 4);
+        const { size: grown } = await sparse.stat();
+        await sparse.close();
+        return { intact, sibling, chunks, gap: Array.from(gap), grown };
+      },
+      { libUrl, dbName, CHUNK_SIZE }
+    );
+
+    expect(result.intact).toBe(true);
+    expect(result.sibling).toBe(true);
+    expect(result.chunks).toEqual([CHUNK_SIZE, CHUNK_SIZE, 100]);
+    expect(result.gap).toEqual([0, 0, 0, 0, 0, 0]);
+    expect(result.grown).toBe(CHUNK_SIZE * 2 + 113);
+  });
+});
@@ -0,0 +1,118 @@
+import { test, expect } from '@playwright/test';
+import { resolve } from 'path';
+
+// Vite serves files outside the demo root through /@fs/
+const libUrl = `/file-system-browser/@fs${resolve('src/index.ts')}`;
+
+test.describe('Atomic rename and rm', () => {
+  test('should reject moving a directory into its own subtree', async ({
+    page,
+  }) => {
+    await page.goto('/file-system-browser/');
+    const dbName = 'RenameSubtreeTestDB-' + Date.now();
+
+    const result = await page.evaluate(
+      async ({ libUrl, dbName }) => {
+        const { createFs } = await import(/* @vite-ignore */ libUrl);
+        const fs = createFs({ name: dbName });
+        await fs.promises.mkdir('/a/b', { recursive: true });
+        await fs.promises.writeFile('/a/b/f.txt', 'data');
+
+        const code = (p: Promise<unknown>) =>
+          p.then(
+            () => 'ok',
+            (e: { code?: string }) => e.code
+          );
+        const intoChild = await code(fs.promises.rename('/a', '/a/b/c'));
+        const ontoChild = await code(fs.promises.rename('/a', '/a/b'));
+        const inBatch = await code(
+          fs.promises.batch([{ op: 'rename', oldPath: '/a', newPath: '/a/x' }])
+        );
+        const root = await fs.promises.readdir('/');
+        const text = await fs.promises.readFile('/a/b/f.txt', 'utf8');
+        return { intoChild, ontoChild, inBatch, root, text };
+      },
+      { libUrl, dbName }
+    );
+
+    expect(result.intoChild).toBe('EINVAL');
+    expect(result.ontoChild).toBe('EINVAL');
+    expect(result.inBatch).toBe('EINVAL');
+    expect(result.root).toEqual(['a']);
+    expect(result.text).toBe('data');
+  });
+
+  test('should check the type of the replaced destination', async ({
+    page,
+  }) => {
+    await page.goto('/file-system-browser/');
+    const dbName = 'RenameDestTestDB-' + Date.now();
+
+    const result = await page.evaluate(
+      async ({ libUrl, dbName }) => {
+        const { createFs } = await import(/* @vite-ignore */ libUrl);
+        const fs = createFs({ name: dbName });
+        await fs.promises.mkdir('/dir/sub', { recursive: true });
+        await fs.promises.mkdir('/full/x', { recursive: true });
+        await fs.promises.mkdir('/empty');
+        await fs.promises.writeFile('/file', '1');
+
+        const code = (p: Promise<unknown>) =>
+          p.then(
+            () => 'ok',
+            (e: { code?: string }) => e.code
+          );
+        const ontoNonEmpty = await code(fs.promises.rename('/dir', '/full'));
+        const fileOntoDir = await code(fs.promises.rename('/file', '/empty'));
+        const dirOntoFile = await code(fs.promises.rename('/dir', '/file'));
+        const ontoEmpty = await code(fs.promises.rename('/dir', '/empty'));
+        const moved = await fs.promises.readdir('/empty');
+        return { ontoNonEmpty, fileOntoDir, dirOntoFile, ontoEmpty, moved };
+      },
+      { libUrl, dbName }
+    );
+
+    expect(result.ontoNonEmpty).toBe('ENOTEMPTY');
+    expect(result.fileOntoDir).toBe('EISDIR');
+    expect(result.dirOntoFile).toBe('ENOTDIR');
+    expect(result.ontoEmpty).toBe('ok');
+    expect(result.moved).toEqual(['sub']);
+  });
+
+  test('should move and remove a whole subtree', async ({ page }) => {
+    await page.goto('/file-system-browser/');
+    const dbName = 'RenameTreeTestDB-' + Date.now();
+
+    const result = await page.evaluate(
+      async ({ libUrl, dbName }) => {
+        const { createFs } = await import(/* @vite-ignore */ libUrl);
+        const fs = createFs({ name: dbName });
+        await fs.promises.mkdir('/src/deep/er', { recursive: true });
+        for (let i = 0; i < 5; i++)
+          await fs.promises.writeFile(`/src/d${i}.txt`, String(i));
+        await fs.promises.writeFile('/src/deep/er/f.txt', 'deep');
+
+        await fs.promises.rename('/src', '/dest');
+        const exists = await fs.promises.exists('/src');
+        const moved = (await fs.promises.readdir('/dest')).sort();
+        const text = await fs.promises.readFile('/dest/deep/er/f.txt', 'utf8');
+        await fs.promises.rm('/dest', { recursive: true });
+        const root = await fs.promises.readdir('/');
+        return { exists, moved, text, root };
+      },
+      { libUrl, dbName }
+    );
+
+    expect(result.exists).toBe(false);
+    expect(result.moved).toEqual([
+      'd0.txt',
+      'd1.txt',
+      'd2.txt',
+      'd3.txt',
+      'd4.txt',
+      'deep',
+    ]);
+    expect(result.text).toBe('deep');
+    expect(result.root).toEqual([]);
+  });
+});
@@ -0,0 +1,100 @@
+import { test, expect } from '@playwright/test';
+import { resolve } from 'path';
+
+// Vite serves files outside the demo root through /@fs/
+const libUrl = `/file-system-browser/@fs${resolve('src/index.ts')}`;
+
+test.describe('Streams', () => {
+  test('should signal backpressure and drain on write streams', async ({
+    page,
+  }) => {
+    await page.goto('/file-system-browser/');
+    const dbName = 'WriteStreamTestDB-' + Date.now();
+
+    const result = await page.evaluate(
+      async ({ libUrl, dbName }) => {
+        const { createFs } = await import(/* @vite-ignore */ libUrl);
+        const fs = createFs({ name: dbName });
+        const ws = fs.createWriteStream('/out.txt', { highWaterMark: 8 });
+        const events: string[] = [];
+        for (const name of ['open', 'ready', 'drain', 'finish', 'close'])
+          ws.on(name, () => events.push(name));
+
+        const accepted: boolean[] = [];
+        let drains = 0;
+        for (let i = 0; i < 4; i++) {
+          const ok = ws.write('abcdef');
+          accepted.push(ok);
+          if (!ok) {
+            await new Promise((r) => ws.once('drain', r));
+            drains++;
+          }
+        }
+        // chunks are persisted as they arrive, before end()
+        const beforeEnd = await fs.promises.readFile('/out.txt', 'utf8');
+        await new Promise((r) => ws.end('!', r));
+        await new Promise((r) => ws.once('close', r));
+        const text = await fs.promises.readFile('/out.txt', 'utf8');
+        return { accepted, drains, beforeEnd, text, events };
+      },
+      { libUrl, dbName }
+    );
+
+    expect(result.accepted).toEqual([true, false, true, false]);
+    expect(result.drains).toBe(2);
+    expect(result.beforeEnd).toBe('abcdef'.repeat(4));
+    expect(result.text).toBe('abcdef'.repeat(4) + '!');
+    expect(result.events).toEqual([
+      'open',
+      'ready',
+      'drain',
+      'drain',
+      'finish',
+      'close',
+    ]);
+  });
+
+  test('should read in highWaterMark slices only while flowing', async ({
+    page,
+  }) => {
+    await page.goto('/file-system-browser/');
+    const dbName = 'ReadStreamTestDB-' + Date.now();
+
+    const result = await page.evaluate(
+      async ({ libUrl, dbName }) => {
+        const { createFs } = await import(/* @vite-ignore */ libUrl);
+        const fs = createFs({ name: dbName });
+        await fs.promises.writeFile('/in.txt', '0123456789abcdef');
+
+        const rs = fs.createReadStream('/in.txt', {
+          highWaterMark: 4,
+          start: 2,
+          end: 13,
+          encoding: 'utf8',
+        });
+        const chunks: string[] = [];
+        rs.on('data', (chunk: string) => {
+          chunks.push(chunk);
+          if (chunks.length === 1) rs.pause();
+        });
+        await new Promise((r) => setTimeout(r, 100));
+        const whilePaused = chunks.length;
+        const ended = new Promise((r) => rs.once('end', r));
+        rs.resume();
+        await ended;
+
+        // pipe waits for the slow destination's drain
+        const src = fs.createReadStream('/in.txt', { highWaterMark: 2 });
+        const dest = fs.createWriteStream('/copy.txt', { highWaterMark: 2 });
+        await new Promise((r) => src.pipe(dest).once('close', r));
+        const copy = await fs.promises.readFile('/copy.txt', 'utf8');
+        return { chunks, whilePaused, copy };
+      },
+      { libUrl, dbName }
+    );
+
+    expect(result.whilePaused).toBe(1);
+    expect(result.chunks).toEqual(['2345', '6789', 'abcd']);
+    expect(result.copy).toBe('0123456789abcdef');
+  });
+});
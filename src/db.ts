@@ -1,84 +1,259 @@
-export interface FileEntry {
-  path: string;
-  name: string;
-  type: 'file' | 'directory' | 'symlink';
-  size: number;
-  content?: ArrayBuffer;
-  mimeType?: string;
-  // symlink target (when type === 'symlink')
-  linkTarget?: string;
-  // hard link group key (all hard-linked files share the same key)
-  hardLinkKey?: string;
-  createdAt: number;
-  modifiedAt: number;
-  parentPath: string;
+import {
+  FileEntry,
+  newContentId,
+  StorageBackend,
+  StorageOp,
+  Transaction,
+} from './storage';
+import { SystemError } from './errors';
+import {
+  blockedError,
+  ensureIndex,
+  Migration,
+  openDatabase,
+} from './migrations';
+
+export type { FileEntry };
+
+export interface ContentChunk {
+  contentId: string;
+  index: number;
+  data: ArrayBuffer;
 }
 
+// v2 records kept the file bytes inline, next to the metadata
+type LegacyFileEntry = FileEntry & { content?: ArrayBuffer };
+
 const DB_NAME = 'FileSystemDB';
-const DB_VERSION = 2;
 const STORE_NAME = 'files';
+const CHUNK_STORE_NAME = 'chunks';
 
-class Database {
-  private db: IDBDatabase | null = null;
+// fixed chunk size used to split file bytes in the chunk store
+export const CHUNK_SIZE = 256 * 1024;
 
-  async init(): Promise<void> {
-    return new Promise((resolve, reject) => {
-      const request = indexedDB.open(DB_NAME, DB_VERSION);
+function request<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onerror = () => reject(req.error);
+    req.onsuccess = () => resolve(req.result);
+  });
+}
 
-      request.onerror = () => reject(request.error);
-      request.onsuccess = () => {
-        this.db = request.result;
-        resolve();
-      };
+function done(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
 
-      request.onupgradeneeded = (event) => {
-        const db = (event.target as IDBOpenDBRequest).result;
-        if (!db.objectStoreNames.contains(STORE_NAME)) {
-          const store = db.createObjectStore(STORE_NAME, { keyPath: 'path' });
-          store.createIndex('parentPath', 'parentPath', { unique: false });
-          store.createIndex('type', 'type', { unique: false });
-          store.createIndex('hardLinkKey', 'hardLinkKey', { unique: false });
-        } else {
-          // upgrade indexes if needed
-          const txn = (event.target as any).transaction as IDBTransaction;
-          const store = (txn as any).objectStore
-            ? (txn as any).objectStore(STORE_NAME)
-            : (db as any)
-                .transaction(STORE_NAME, 'versionchange')
-                .objectStore(STORE_NAME);
-          const indexNames = (store.indexNames || []) as any;
-          if (!indexNames.contains || !indexNames.contains('parentPath')) {
-            try {
-              store.createIndex('parentPath', 'parentPath', { unique: false });
-            } catch (e) {
-              void 0;
-            }
-          }
-          if (!indexNames.contains || !indexNames.contains('type')) {
-            try {
-              store.createIndex('type', 'type', { unique: false });
-            } catch (e) {
-              void 0;
-            }
-          }
-          if (!indexNames.contains || !indexNames.contains('hardLinkKey')) {
-            try {
-              store.createIndex('hardLinkKey', 'hardLinkKey', {
-                unique: false,
-              });
-            } catch (e) {
-              void 0;
-            }
-          }
-        }
-      };
+function splitChunks(contentId: string, data: ArrayBuffer): ContentChunk[] {
+  const chunks: ContentChunk[] = [];
+  for (let i = 0; i * CHUNK_SIZE < data.byteLength; i++) {
+    chunks.push({
+      contentId,
+      index: i,
+      data: data.slice(i * CHUNK_SIZE, (i + 1) * CHUNK_SIZE),
     });
   }
+  return chunks;
+}
+
+// Move inline `content` of v2 records into the content store so that the
+// files store only holds metadata. Hard links share one content id.
+function migrateInlineContent(
+  files: IDBObjectStore,
+  chunks: IDBObjectStore
+): void {
+  const groups = new Map<string, string>();
+  const cursorReq = files.openCursor();
+  cursorReq.onsuccess = () => {
+    const cursor = cursorReq.result;
+    if (!cursor) return;
+    const value = cursor.value as LegacyFileEntry;
+    if (value.content) {
+      const { content, ...meta } = value;
+      let contentId = value.hardLinkKey && groups.get(value.hardLinkKey);
+      if (!contentId) {
+        contentId = newContentId();
+        if (value.hardLinkKey) groups.set(value.hardLinkKey, contentId);
+        for (const chunk of splitChunks(contentId, content)) chunks.put(chunk);
+      }
+      cursor.update({ ...meta, contentId } as FileEntry);
+    }
+    cursor.continue();
+  };
+}
+
+// Schema history of FileSystemDB. Append new steps; never edit shipped ones.
+const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'files store keyed by path',
+    upgrade(db) {
+      const store = db.createObjectStore(STORE_NAME, { keyPath: 'path' });
+      ensureIndex(store, 'parentPath', 'parentPath', { unique: false });
+      ensureIndex(store, 'type', 'type', { unique: false });
+    },
+  },
+  {
+    version: 2,
+    description: 'index hard link groups',
+    upgrade(_db, tx) {
+      const store = tx.objectStore(STORE_NAME);
+      // builds before the migration list created every index up front
+      ensureIndex(store, 'parentPath', 'parentPath', { unique: false });
+      ensureIndex(store, 'type', 'type', { unique: false });
+      ensureIndex(store, 'hardLinkKey', 'hardLinkKey', { unique: false });
+    },
+  },
+  {
+    version: 3,
+    description: 'chunk store for file bytes',
+    upgrade(db) {
+      if (!db.objectStoreNames.contains(CHUNK_STORE_NAME)) {
+        db.createObjectStore(CHUNK_STORE_NAME, {
+          keyPath: ['contentId', 'index'],
+        });
+      }
+    },
+  },
+  {
+    version: 4,
+    description: 'move inline content into the chunk store',
+    upgrade(_db, tx) {
+      migrateInlineContent(
+        tx.objectStore(STORE_NAME),
+        tx.objectStore(CHUNK_STORE_NAME)
+      );
+    },
+  },
+];
+
+function chunkRange(contentId: string, from: number, to: number): IDBKeyRange {
+  return IDBKeyRange.bound([contentId, from], [contentId, to]);
+}
+
+// Write `data` at `position` into the chunks of `contentId`, only reading the
+// boundary chunks that are partially overwritten. Missing chunks are sparse
+// and read back as zeros.
+async function putContent(
+  store: IDBObjectStore,
+  contentId: string,
+  position: number,
+  data: Uint8Array
+): Promise<void> {
+  if (!data.byteLength) return;
+  const end = position + data.byteLength;
+  const first = Math.floor(position / CHUNK_SIZE);
+  const last = Math.floor((end - 1) / CHUNK_SIZE);
+  for (let index = first; index <= last; index++) {
+    const chunkStart = index * CHUNK_SIZE;
+    const from = Math.max(position, chunkStart);
+    const to = Math.min(end, chunkStart + CHUNK_SIZE);
+    const part = data.subarray(from - position, to - position);
+    let bytes: Uint8Array;
+    if (from === chunkStart && to === chunkStart + CHUNK_SIZE) {
+      bytes = part.slice(0);
+    } else {
+      const prev = (await request(store.get([contentId, index]))) as
+        | ContentChunk
+        | undefined;
+      const prevBytes = prev ? new Uint8Array(prev.data) : new Uint8Array();
+      bytes = new Uint8Array(Math.max(prevBytes.length, to - chunkStart));
+      bytes.set(prevBytes, 0);
+      bytes.set(part, from - chunkStart);
+    }
+    const chunk: ContentChunk = {
+      contentId,
+      index,
+      data: bytes.buffer as ArrayBuffer,
+    };
+    store.put(chunk);
+  }
+}
+
+// Drop every byte of `contentId` past `size`
+async function cutContent(
+  store: IDBObjectStore,
+  contentId: string,
+  size: number
+): Promise<void> {
+  const keep = Math.ceil(size / CHUNK_SIZE);
+  store.delete(chunkRange(contentId, keep, Infinity));
+  if (size % CHUNK_SIZE) {
+    const index = keep - 1;
+    const prev = (await request(store.get([contentId, index]))) as
+      | ContentChunk
+      | undefined;
+    const length = size - index * CHUNK_SIZE;
+    if (prev && prev.data.byteLength > length) {
+      store.put({ ...prev, data: prev.data.slice(0, length) });
+    }
+  }
+}
+
+// Replace the chunks of `to` with copies of the chunks of `from`, walking
+// them with a cursor so only one chunk is in memory at a time
+async function copyChunks(
+  store: IDBObjectStore,
+  from: string,
+  to: string
+): Promise<void> {
+  if (from === to) return;
+  store.delete(chunkRange(to, 0, Infinity));
+  const cursorReq = store.openCursor(chunkRange(from, 0, Infinity));
+  await new Promise<void>((resolve, reject) => {
+    cursorReq.onerror = () => reject(cursorReq.error);
+    cursorReq.onsuccess = () => {
+      const cursor = cursorReq.result;
+      if (!cursor) return resolve();
+      const chunk: ContentChunk = { ...cursor.value, contentId: to };
+      store.put(chunk);
+      cursor.continue();
+    };
+  });
+}
+
+export class Database implements StorageBackend {
+  private db: Promise<IDBDatabase> | null = null;
+  private initialized = false;
+
+  constructor(readonly name: string = DB_NAME) {}
+
+  async init(): Promise<void> {
+    this.initialized = true;
+    await this.connection();
+  }
+
+  // The connection is dropped when another tab upgrades the schema and
+  // reopened on next use.
+  private connection(): Promise<IDBDatabase> {
+    if (!this.initialized)
+      return Promise.reject(
+        new SystemError('EINVAL', 'open', {
+          detail: 'database not initialized',
+        })
+      );
+    if (!this.db) {
+      const opening = openDatabase(this.name, MIGRATIONS, {
+        // fail instead of hanging until the other tab closes
+        onBlocked: () => blockedError(this.name),
+        onVersionChange: () => {
+          if (this.db === opening) this.db = null;
+        },
+      });
+      opening.catch(() => {
+        if (this.db === opening) this.db = null;
+      });
+      this.db = opening;
+    }
+    return this.db;
+  }
 
   async put(entry: FileEntry): Promise<void> {
-    if (!this.db) throw new Error('Database not initialized');
+    const idb = await this.connection();
     return new Promise((resolve, reject) => {
-      const transaction = this.db!.transaction([STORE_NAME], 'readwrite');
+      const transaction = idb.transaction([STORE_NAME], 'readwrite');
       const store = transaction.objectStore(STORE_NAME);
       const request = store.put(entry);
 
@@ -88,9 +263,9 @@ class Database {
   }
 
   async get(path: string): Promise<FileEntry | undefined> {
-    if (!this.db) throw new Error('Database not initialized');
+    const idb = await this.connection();
     return new Promise((resolve, reject) => {
-      const transaction = this.db!.transaction([STORE_NAME], 'readonly');
+      const transaction = idb.transaction([STORE_NAME], 'readonly');
       const store = transaction.objectStore(STORE_NAME);
       const request = store.get(path);
 
@@ -100,9 +275,9 @@ class Database {
   }
 
   async delete(path: string): Promise<void> {
-    if (!this.db) throw new Error('Database not initialized');
+    const idb = await this.connection();
     return new Promise((resolve, reject) => {
-      const transaction = this.db!.transaction([STORE_NAME], 'readwrite');
+      const transaction = idb.transaction([STORE_NAME], 'readwrite');
       const store = transaction.objectStore(STORE_NAME);
       const request = store.delete(path);
 
@@ -112,9 +287,9 @@ class Database {
   }
 
   async getByParentPath(parentPath: string): Promise<FileEntry[]> {
-    if (!this.db) throw new Error('Database not initialized');
+    const idb = await this.connection();
     return new Promise((resolve, reject) => {
-      const transaction = this.db!.transaction([STORE_NAME], 'readonly');
+      const transaction = idb.transaction([STORE_NAME], 'readonly');
       const store = transaction.objectStore(STORE_NAME);
       const index = store.index('parentPath');
       const request = index.getAll(parentPath);
@@ -125,9 +300,9 @@ class Database {
   }
 
   async getAll(): Promise<FileEntry[]> {
-    if (!this.db) throw new Error('Database not initialized');
+    const idb = await this.connection();
     return new Promise((resolve, reject) => {
-      const transaction = this.db!.transaction([STORE_NAME], 'readonly');
+      const transaction = idb.transaction([STORE_NAME], 'readonly');
       const store = transaction.objectStore(STORE_NAME);
       const request = store.getAll();
 
@@ -137,9 +312,9 @@ class Database {
   }
 
   async getByHardLinkKey(key: string): Promise<FileEntry[]> {
-    if (!this.db) throw new Error('Database not initialized');
+    const idb = await this.connection();
     return new Promise((resolve, reject) => {
-      const transaction = this.db!.transaction([STORE_NAME], 'readonly');
+      const transaction = idb.transaction([STORE_NAME], 'readonly');
       const store = transaction.objectStore(STORE_NAME);
       let index: IDBIndex;
       try {
@@ -160,16 +335,167 @@ class Database {
     });
   }
 
-  async clear(): Promise<void> {
-    if (!this.db) throw new Error('Database not initialized');
-    return new Promise((resolve, reject) => {
-      const transaction = this.db!.transaction([STORE_NAME], 'readwrite');
-      const store = transaction.objectStore(STORE_NAME);
-      const request = store.clear();
+  async readContent(
+    contentId: string,
+    position: number,
+    length: number
+  ): Promise<Uint8Array> {
+    const idb = await this.connection();
+    const out = new Uint8Array(Math.max(0, length));
+    if (!out.length) return out;
+    const first = Math.floor(position / CHUNK_SIZE);
+    const last = Math.floor((position + out.length - 1) / CHUNK_SIZE);
+    const transaction = idb.transaction([CHUNK_STORE_NAME], 'readonly');
+    const store = transaction.objectStore(CHUNK_STORE_NAME);
+    const chunks = (await request(
+      store.getAll(chunkRange(contentId, first, last))
+    )) as ContentChunk[];
+    for (const chunk of chunks) {
+      const chunkStart = chunk.index * CHUNK_SIZE;
+      const bytes = new Uint8Array(chunk.data);
+      const from = Math.max(position, chunkStart);
+      const to = Math.min(position + out.length, chunkStart + bytes.length);
+      if (to <= from) continue;
+      out.set(
+        bytes.subarray(from - chunkStart, to - chunkStart),
+        from - position
+      );
+    }
+    return out;
+  }
 
-      request.onerror = () => reject(request.error);
-      request.onsuccess = () => resolve();
+  async writeContent(
+    contentId: string,
+    position: number,
+    data: Uint8Array
+  ): Promise<void> {
+    const idb = await this.connection();
+    const transaction = idb.transaction([CHUNK_STORE_NAME], 'readwrite');
+    const store = transaction.objectStore(CHUNK_STORE_NAME);
+    const finished = done(transaction);
+    await putContent(store, contentId, position, data);
+    await finished;
+  }
+
+  // Replace the whole content of `contentId` with `data` in one transaction.
+  async replaceContent(contentId: string, data: Uint8Array): Promise<void> {
+    const idb = await this.connection();
+    const transaction = idb.transaction([CHUNK_STORE_NAME], 'readwrite');
+    const store = transaction.objectStore(CHUNK_STORE_NAME);
+    const finished = done(transaction);
+    store.delete(chunkRange(contentId, 0, Infinity));
+    await putContent(store, contentId, 0, data);
+    await finished;
+  }
+
+  async truncateContent(contentId: string, size: number): Promise<void> {
+    const idb = await this.connection();
+    const transaction = idb.transaction([CHUNK_STORE_NAME], 'readwrite');
+    const store = transaction.objectStore(CHUNK_STORE_NAME);
+    const finished = done(transaction);
+    await cutContent(store, contentId, size);
+    await finished;
+  }
+
+  async copyContent(from: string, to: string): Promise<void> {
+    const idb = await this.connection();
+    const transaction = idb.transaction([CHUNK_STORE_NAME], 'readwrite');
+    const finished = done(transaction);
+    await copyChunks(transaction.objectStore(CHUNK_STORE_NAME), from, to);
+    await finished;
+  }
+
+  async deleteContent(contentId: string): Promise<void> {
+    const idb = await this.connection();
+    const transaction = idb.transaction([CHUNK_STORE_NAME], 'readwrite');
+    const finished = done(transaction);
+    transaction
+      .objectStore(CHUNK_STORE_NAME)
+      .delete(chunkRange(contentId, 0, Infinity));
+    await finished;
+  }
+
+  // Walk the chunk keys, skipping from the first chunk of each content id
+  // straight to the next id
+  async listContent(): Promise<string[]> {
+    const idb = await this.connection();
+    const transaction = idb.transaction([CHUNK_STORE_NAME], 'readonly');
+    const cursorReq = transaction.objectStore(CHUNK_STORE_NAME).openKeyCursor();
+    const ids: string[] = [];
+    await new Promise<void>((resolve, reject) => {
+      cursorReq.onerror = () => reject(cursorReq.error);
+      cursorReq.onsuccess = () => {
+        const cursor = cursorReq.result;
+        if (!cursor) return resolve();
+        const [contentId] = cursor.key as [string, number];
+        ids.push(contentId);
+        cursor.continue([contentId, Infinity]);
+      };
     });
+    return ids;
+  }
+
+  // Apply all staged ops in one readwrite transaction: either every op is
+  // persisted or none is.
+  async commit(ops: StorageOp[]): Promise<void> {
+    const idb = await this.connection();
+    if (!ops.length) return;
+    const transaction = idb.transaction(
+      [STORE_NAME, CHUNK_STORE_NAME],
+      'readwrite'
+    );
+    const files = transaction.objectStore(STORE_NAME);
+    const chunks = transaction.objectStore(CHUNK_STORE_NAME);
+    const finished = done(transaction);
+    try {
+      for (const op of ops) {
+        switch (op.type) {
+          case 'put':
+            files.put(op.entry);
+            break;
+          case 'delete':
+            files.delete(op.path);
+            break;
+          case 'writeContent':
+            await putContent(chunks, op.contentId, op.position, op.data);
+            break;
+          case 'replaceContent':
+            chunks.delete(chunkRange(op.contentId, 0, Infinity));
+            await putContent(chunks, op.contentId, 0, op.data);
+            break;
+          case 'truncateContent':
+            await cutContent(chunks, op.contentId, op.size);
+            break;
+          case 'copyContent':
+            await copyChunks(chunks, op.from, op.to);
+            break;
+          case 'deleteContent':
+            chunks.delete(chunkRange(op.contentId, 0, Infinity));
+            break;
+        }
+      }
+    } catch (e) {
+      transaction.abort();
+      await finished.catch(() => undefined);
+      throw e;
+    }
+    await finished;
+  }
+
+  transaction(): Transaction {
+    return new Transaction(this);
+  }
+
+  async clear(): Promise<void> {
+    const idb = await this.connection();
+    const transaction = idb.transaction(
+      [STORE_NAME, CHUNK_STORE_NAME],
+      'readwrite'
+    );
+    const finished = done(transaction);
+    transaction.objectStore(STORE_NAME).clear();
+    transaction.objectStore(CHUNK_STORE_NAME).clear();
+    await finished;
   }
 }
 
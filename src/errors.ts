@@ -0,0 +1,73 @@
+// errno values and descriptions as reported by Node on Linux
+export const ERROR_CODES = {
+  EPERM: { errno: -1, description: 'operation not permitted' },
+  ENOENT: { errno: -2, description: 'no such file or directory' },
+  EIO: { errno: -5, description: 'i/o error' },
+  EBADF: { errno: -9, description: 'bad file descriptor' },
+  EACCES: { errno: -13, description: 'permission denied' },
+  EBUSY: { errno: -16, description: 'resource busy or locked' },
+  EEXIST: { errno: -17, description: 'file already exists' },
+  EXDEV: { errno: -18, description: 'cross-device link not permitted' },
+  ENOTDIR: { errno: -20, description: 'not a directory' },
+  EISDIR: { errno: -21, description: 'illegal operation on a directory' },
+  EINVAL: { errno: -22, description: 'invalid argument' },
+  EMFILE: { errno: -24, description: 'too many open files' },
+  ENOSPC: { errno: -28, description: 'no space left on device' },
+  EROFS: { errno: -30, description: 'read-only file system' },
+  ENAMETOOLONG: { errno: -36, description: 'name too long' },
+  ENOSYS: { errno: -38, description: 'function not implemented' },
+  ENOTEMPTY: { errno: -39, description: 'directory not empty' },
+  ELOOP: {
+    errno: -40,
+    description: 'too many symbolic links encountered',
+  },
+  ENOTSUP: { errno: -95, description: 'operation not supported' },
+} as const;
+
+export type ErrorCode = keyof typeof ERROR_CODES;
+
+export interface SystemErrorOptions {
+  path?: string;
+  dest?: string;
+  // replaces the generic description of the code in the message
+  detail?: string;
+}
+
+/**
+ * Error shaped like the ones thrown by Node's fs: branch on `code` instead of
+ * matching the message, e.g. `ENOENT: no such file or directory, open '/a'`.
+ */
+export class SystemError extends Error {
+  readonly code: ErrorCode;
+  readonly errno: number;
+  readonly syscall: string;
+  readonly path?: string;
+  readonly dest?: string;
+
+  constructor(
+    code: ErrorCode,
+    syscall: string,
+    options: SystemErrorOptions = {}
+  ) {
+    const { path, dest, detail } = options;
+    let message = `${code}: ${detail ?? ERROR_CODES[code].description}, ${syscall}`;
+    if (path !== undefined) message += ` '${path}'`;
+    if (dest !== undefined) message += ` -> '${dest}'`;
+    super(message);
+    this.name = 'Error';
+    this.code = code;
+    this.errno = ERROR_CODES[code].errno;
+    this.syscall = syscall;
+    if (path !== undefined) this.path = path;
+    if (dest !== undefined) this.dest = dest;
+  }
+}
+
+export function isSystemError(
+  error: unknown,
+  code?: ErrorCode
+): error is SystemError {
+  return (
+    error instanceof SystemError && (code === undefined || error.code === code)
+  );
+}
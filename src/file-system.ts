@@ -1,4 +1,13 @@
-import { db, FileEntry } from './db';
+import { db as defaultDb } from './db';
+import { isSystemError, SystemError } from './errors';
+import { baseOf, parentOf, resolvePath } from './path';
+import {
+  FileEntry,
+  newContentId,
+  stageHardLinkSiblings,
+  StorageBackend,
+  Transaction,
+} from './storage';
 
 export interface FileInfo {
   path: string;
@@ -14,15 +23,17 @@ export interface FileInfo {
 export class FileSystem {
   private initialized = false;
 
+  constructor(private readonly db: StorageBackend = defaultDb) {}
+
   async init(): Promise<void> {
     if (this.initialized) return;
-    await db.init();
+    await this.db.init();
     this.initialized = true;
 
     // Create root directory if it doesn't exist
-    const root = await db.get('/');
+    const root = await this.db.get('/');
     if (!root) {
-      await db.put({
+      await this.db.put({
         path: '/',
         name: '',
         type: 'directory',
@@ -34,34 +45,22 @@ export class FileSystem {
     }
   }
 
-  private ensureInitialized(): void {
+  private ensureInitialized(syscall: string): void {
     if (!this.initialized) {
-      throw new Error('FileSystem not initialized. Call init() first.');
-    }
-  }
-
-  private normalizePath(path: string): string {
-    if (!path.startsWith('/')) {
-      path = '/' + path;
-    }
-    if (path !== '/' && path.endsWith('/')) {
-      path = path.slice(0, -1);
+      throw new SystemError('EINVAL', syscall, {
+        detail: 'FileSystem not initialized, call init() first',
+      });
     }
-    return path;
-  }
-
-  private getParentPath(path: string): string {
-    const normalized = this.normalizePath(path);
-    if (normalized === '/') return '';
-    const lastSlash = normalized.lastIndexOf('/');
-    return lastSlash === 0 ? '/' : normalized.slice(0, lastSlash);
   }
 
-  private getFileName(path: string): string {
-    const normalized = this.normalizePath(path);
-    if (normalized === '/') return '';
-    const lastSlash = normalized.lastIndexOf('/');
-    return normalized.slice(lastSlash + 1);
+  // Canonical form of `path` with intermediate symlinks resolved; the last
+  // component is followed too when `followLast` is set
+  private async resolve(
+    path: string,
+    followLast: boolean,
+    syscall: string
+  ): Promise<string> {
+    return (await resolvePath(this.db, path, followLast, syscall)).path;
   }
 
   async put(
@@ -69,18 +68,18 @@ export class FileSystem {
     content: ArrayBuffer | Blob,
     mimeType?: string
   ): Promise<void> {
-    this.ensureInitialized();
-    path = this.normalizePath(path);
+    this.ensureInitialized('put');
+    path = await this.resolve(path, true, 'put');
 
     // Ensure parent directory exists
-    const parentPath = this.getParentPath(path);
+    const parentPath = parentOf(path);
     if (parentPath) {
-      const parent = await db.get(parentPath);
+      const parent = await this.db.get(parentPath);
       if (!parent) {
-        throw new Error(`Parent directory does not exist: ${parentPath}`);
+        throw new SystemError('ENOENT', 'put', { path });
       }
       if (parent.type !== 'directory') {
-        throw new Error(`Parent is not a directory: ${parentPath}`);
+        throw new SystemError('ENOTDIR', 'put', { path });
       }
     }
 
@@ -94,159 +93,122 @@ export class FileSystem {
       arrayBuffer = content;
     }
 
-    const existing = await db.get(path);
+    // bytes and metadata commit together, so a failed commit leaves neither
+    const tx = this.db.transaction();
+    const existing = await tx.get(path);
     const now = Date.now();
+    const contentId = existing?.contentId || newContentId();
+    tx.replaceContent(contentId, new Uint8Array(arrayBuffer));
 
     const entry: FileEntry = {
       path,
-      name: this.getFileName(path),
+      name: baseOf(path),
       type: 'file',
       size: arrayBuffer.byteLength,
-      content: arrayBuffer,
+      contentId,
       mimeType: mimeType || 'application/octet-stream',
       createdAt: existing?.createdAt || now,
       modifiedAt: now,
+      changedAt: now,
       parentPath,
+      hardLinkKey: existing?.hardLinkKey,
     };
 
-    await db.put(entry);
+    tx.put(entry);
+    // the other names of a hard-linked file see the new size and times
+    await stageHardLinkSiblings(tx, entry);
+    await tx.commit();
   }
 
   async get(path: string): Promise<ArrayBuffer | null> {
-    this.ensureInitialized();
-    path = this.normalizePath(path);
-
-    const entry = await db.get(path);
+    this.ensureInitialized('get');
+    const { entry } = await resolvePath(this.db, path, true, 'get');
     if (!entry) return null;
     if (entry.type !== 'file') {
-      throw new Error(`Path is not a file: ${path}`);
+      throw new SystemError('EISDIR', 'get', { path });
     }
-    return entry.content || null;
+    if (!entry.contentId) return null;
+    const content = await this.db.readContent(entry.contentId, 0, entry.size);
+    return content.buffer as ArrayBuffer;
   }
 
   async delete(path: string): Promise<void> {
-    this.ensureInitialized();
-    path = this.normalizePath(path);
-
-    if (path === '/') {
-      throw new Error('Cannot delete root directory');
-    }
-
-    const entry = await db.get(path);
-    if (!entry) {
-      throw new Error(`Path does not exist: ${path}`);
-    }
-
-    // If directory, delete all children recursively
-    if (entry.type === 'directory') {
-      const children = await db.getByParentPath(path);
-      for (const child of children) {
-        await this.delete(child.path);
-      }
-    }
-
-    await db.delete(path);
+    this.ensureInitialized('delete');
+    const tx = this.db.transaction();
+    await this.stageDelete(tx, await this.resolve(path, false, 'delete'));
+    await tx.commit();
   }
 
   async copy(sourcePath: string, destPath: string): Promise<void> {
-    this.ensureInitialized();
-    sourcePath = this.normalizePath(sourcePath);
-    destPath = this.normalizePath(destPath);
-
-    const source = await db.get(sourcePath);
-    if (!source) {
-      throw new Error(`Source path does not exist: ${sourcePath}`);
-    }
-
-    if (await db.get(destPath)) {
-      throw new Error(`Destination path already exists: ${destPath}`);
-    }
-
-    // Ensure parent directory exists
-    const parentPath = this.getParentPath(destPath);
-    if (parentPath) {
-      const parent = await db.get(parentPath);
-      if (!parent || parent.type !== 'directory') {
-        throw new Error(`Parent directory does not exist: ${parentPath}`);
-      }
-    }
-
-    const now = Date.now();
-    const newEntry: FileEntry = {
-      ...source,
-      path: destPath,
-      name: this.getFileName(destPath),
-      parentPath,
-      createdAt: now,
-      modifiedAt: now,
-    };
-
-    await db.put(newEntry);
-
-    // If directory, copy all children recursively
-    if (source.type === 'directory') {
-      const children = await db.getByParentPath(sourcePath);
-      for (const child of children) {
-        const childDestPath = destPath + child.path.slice(sourcePath.length);
-        await this.copy(child.path, childDestPath);
-      }
-    }
+    this.ensureInitialized('copy');
+    const tx = this.db.transaction();
+    await this.stageCopy(
+      tx,
+      await this.resolve(sourcePath, false, 'copy'),
+      await this.resolve(destPath, false, 'copy')
+    );
+    await tx.commit();
   }
 
   async move(sourcePath: string, destPath: string): Promise<void> {
-    this.ensureInitialized();
-    sourcePath = this.normalizePath(sourcePath);
-    destPath = this.normalizePath(destPath);
+    this.ensureInitialized('move');
+    sourcePath = await this.resolve(sourcePath, false, 'move');
+    destPath = await this.resolve(destPath, false, 'move');
 
     if (sourcePath === '/') {
-      throw new Error('Cannot move root directory');
+      throw new SystemError('EBUSY', 'move', {
+        path: sourcePath,
+        dest: destPath,
+      });
     }
 
-    await this.copy(sourcePath, destPath);
-    await this.delete(sourcePath);
+    // copy + delete commit together, so a move is never half done
+    const tx = this.db.transaction();
+    await this.stageCopy(tx, sourcePath, destPath);
+    await this.stageDelete(tx, sourcePath);
+    await tx.commit();
   }
 
   async propfind(path: string): Promise<FileInfo[]> {
-    this.ensureInitialized();
-    path = this.normalizePath(path);
-
-    const entry = await db.get(path);
+    this.ensureInitialized('propfind');
+    const resolved = await resolvePath(this.db, path, true, 'propfind');
+    const entry = resolved.entry;
     if (!entry) {
-      throw new Error(`Path does not exist: ${path}`);
+      throw new SystemError('ENOENT', 'propfind', { path });
     }
 
     if (entry.type === 'file') {
       return [this.entryToInfo(entry)];
     }
 
-    const children = await db.getByParentPath(path);
+    const children = await this.db.getByParentPath(resolved.path);
     return children.map((child) => this.entryToInfo(child));
   }
 
   async mkdir(path: string): Promise<void> {
-    this.ensureInitialized();
-    path = this.normalizePath(path);
+    this.ensureInitialized('mkdir');
+    path = await this.resolve(path, false, 'mkdir');
 
-    if (await db.get(path)) {
-      throw new Error(`Path already exists: ${path}`);
+    if (await this.db.get(path)) {
+      throw new SystemError('EEXIST', 'mkdir', { path });
     }
 
     // Ensure parent directory exists
-    const parentPath = this.getParentPath(path);
+    const parentPath = parentOf(path);
     if (parentPath) {
-      const parent = await db.get(parentPath);
+      const parent = await this.db.get(parentPath);
       if (!parent) {
-        throw new Error(`Parent directory does not exist: ${parentPath}`);
+        throw new SystemError('ENOENT', 'mkdir', { path });
       }
       if (parent.type !== 'directory') {
-        throw new Error(`Parent is not a directory: ${parentPath}`);
+        throw new SystemError('ENOTDIR', 'mkdir', { path });
       }
     }
 
     const now = Date.now();
     const entry: FileEntry = {
       path,
-      name: this.getFileName(path),
+      name: baseOf(path),
       type: 'directory',
       size: 0,
       createdAt: now,
@@ -254,28 +216,30 @@ export class FileSystem {
       parentPath,
     };
 
-    await db.put(entry);
+    await this.db.put(entry);
   }
 
   async exists(path: string): Promise<boolean> {
-    this.ensureInitialized();
-    path = this.normalizePath(path);
-    const entry = await db.get(path);
-    return !!entry;
+    return !!(await this.stat(path));
   }
 
   async stat(path: string): Promise<FileInfo | null> {
-    this.ensureInitialized();
-    path = this.normalizePath(path);
-    const entry = await db.get(path);
-    return entry ? this.entryToInfo(entry) : null;
+    this.ensureInitialized('stat');
+    try {
+      const { entry } = await resolvePath(this.db, path, false, 'stat');
+      return entry ? this.entryToInfo(entry) : null;
+    } catch (e) {
+      // a file used as a directory means the path cannot exist
+      if (isSystemError(e, 'ENOTDIR')) return null;
+      throw e;
+    }
   }
 
   async clear(): Promise<void> {
-    this.ensureInitialized();
-    await db.clear();
+    this.ensureInitialized('clear');
+    await this.db.clear();
     // Recreate root directory
-    await db.put({
+    await this.db.put({
       path: '/',
       name: '',
       type: 'directory',
@@ -286,6 +250,111 @@ export class FileSystem {
     });
   }
 
+  private async stageDelete(tx: Transaction, path: string): Promise<void> {
+    if (path === '/') {
+      throw new SystemError('EBUSY', 'delete', { path });
+    }
+
+    const entry = await tx.get(path);
+    if (!entry) {
+      throw new SystemError('ENOENT', 'delete', { path });
+    }
+
+    // If directory, delete all children recursively
+    if (entry.type === 'directory') {
+      const children = await tx.getByParentPath(path);
+      for (const child of children) {
+        await this.stageDelete(tx, child.path);
+      }
+    }
+
+    tx.delete(path);
+    await this.releaseContent(tx, entry);
+  }
+
+  private async stageCopy(
+    tx: Transaction,
+    sourcePath: string,
+    destPath: string
+  ): Promise<void> {
+    const source = await tx.get(sourcePath);
+    if (!source) {
+      throw new SystemError('ENOENT', 'copy', {
+        path: sourcePath,
+        dest: destPath,
+      });
+    }
+
+    if (await tx.get(destPath)) {
+      throw new SystemError('EEXIST', 'copy', {
+        path: sourcePath,
+        dest: destPath,
+      });
+    }
+
+    if (destPath.startsWith(sourcePath === '/' ? '/' : sourcePath + '/')) {
+      throw new SystemError('EINVAL', 'copy', {
+        path: sourcePath,
+        dest: destPath,
+        detail: 'cannot copy a directory into itself',
+      });
+    }
+
+    // Ensure parent directory exists
+    const parentPath = parentOf(destPath);
+    if (parentPath) {
+      const parent = await tx.get(parentPath);
+      if (!parent || parent.type !== 'directory') {
+        throw new SystemError('ENOENT', 'copy', {
+          path: sourcePath,
+          dest: destPath,
+        });
+      }
+    }
+
+    const now = Date.now();
+    const newEntry: FileEntry = {
+      ...source,
+      path: destPath,
+      name: baseOf(destPath),
+      parentPath,
+      hardLinkKey: undefined,
+      createdAt: now,
+      modifiedAt: now,
+    };
+
+    // the copy gets its own bytes instead of sharing the source content;
+    // they are copied chunk by chunk when the transaction commits
+    if (source.contentId) {
+      newEntry.contentId = newContentId();
+      tx.copyContent(source.contentId, newEntry.contentId);
+    }
+
+    tx.put(newEntry);
+
+    // If directory, copy all children recursively
+    if (source.type === 'directory') {
+      const children = await tx.getByParentPath(sourcePath);
+      for (const child of children) {
+        const childDestPath = destPath + child.path.slice(sourcePath.length);
+        await this.stageCopy(tx, child.path, childDestPath);
+      }
+    }
+  }
+
+  // Drop the bytes of a deleted file unless a hard link still shares them
+  private async releaseContent(
+    tx: Transaction,
+    entry: FileEntry
+  ): Promise<void> {
+    if (entry.type !== 'file' || !entry.contentId) return;
+    if (entry.hardLinkKey) {
+      const siblings = await tx.getByHardLinkKey(entry.hardLinkKey);
+      if (siblings.some((s) => s.contentId === entry.contentId)) return;
+    }
+    tx.deleteContent(entry.contentId);
+  }
+
   private entryToInfo(entry: FileEntry): FileInfo {
     return {
       path: entry.path,
@@ -1,14 +1,40 @@
-export { fs } from './fs';
+export { fs, createFs } from './fs';
 export { fs as default } from './fs';
 export {
   Dirent,
   Stats,
+  BigIntStats,
+  FileHandle,
+  ReadStream,
+  WriteStream,
   BufferPolyfill as Buffer,
   registerPlugin,
   usePlugin,
   unregisterPlugin,
 } from './fs';
-export type { FsPlugin, FsPluginFactory, FsPluginContext } from './fs';
-export type { FileEntry } from './db';
+export type {
+  FsPlugin,
+  FsPluginFactory,
+  FsPluginContext,
+  BatchOp,
+  CpOptions,
+  CreateFsOptions,
+  FsLock,
+  TimeLike,
+  TmpOptions,
+  DisposableTempDir,
+  StatOptions,
+  StatsOptions,
+  ReadStreamOptions,
+  WriteStreamOptions,
+} from './fs';
+export type { FileEntry, StorageBackend, StorageOp } from './storage';
+export { Transaction } from './storage';
+export { SystemError, ERROR_CODES, isSystemError } from './errors';
+export type { ErrorCode, SystemErrorOptions } from './errors';
+export { Database as IndexedDBDatabase } from './db';
+export { MemoryDatabase } from './memory-db';
+export { OpfsDatabase, migrateToOpfs } from './opfs-db';
+export type { MigrateToOpfsOptions } from './opfs-db';
 export { sorter } from './sort';
 export type { DirSortConfig, SortMode, SortOrder, IconPosition } from './sort';
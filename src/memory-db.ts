@@ -0,0 +1,143 @@
+import { FileEntry, StorageBackend, StorageOp, Transaction } from './storage';
+
+/**
+ * Non-persistent backend keeping everything in plain Maps. Useful for Node,
+ * SSR and fast unit tests where IndexedDB is not available.
+ */
+export class MemoryDatabase implements StorageBackend {
+  private entries = new Map<string, FileEntry>();
+  private contents = new Map<string, Uint8Array>();
+
+  async init(): Promise<void> {
+    // nothing to open
+  }
+
+  async put(entry: FileEntry): Promise<void> {
+    this.entries.set(entry.path, { ...entry });
+  }
+
+  async get(path: string): Promise<FileEntry | undefined> {
+    const entry = this.entries.get(path);
+    return entry ? { ...entry } : undefined;
+  }
+
+  async delete(path: string): Promise<void> {
+    this.entries.delete(path);
+  }
+
+  async getByParentPath(parentPath: string): Promise<FileEntry[]> {
+    return this.filter((e) => e.parentPath === parentPath);
+  }
+
+  async getAll(): Promise<FileEntry[]> {
+    return this.filter(() => true);
+  }
+
+  async getByHardLinkKey(key: string): Promise<FileEntry[]> {
+    return this.filter((e) => e.hardLinkKey === key);
+  }
+
+  async readContent(
+    contentId: string,
+    position: number,
+    length: number
+  ): Promise<Uint8Array> {
+    const out = new Uint8Array(Math.max(0, length));
+    const bytes = this.contents.get(contentId);
+    if (bytes && position < bytes.length) {
+      out.set(bytes.subarray(position, position + out.length));
+    }
+    return out;
+  }
+
+  async writeContent(
+    contentId: string,
+    position: number,
+    data: Uint8Array
+  ): Promise<void> {
+    this.apply({ type: 'writeContent', contentId, position, data });
+  }
+
+  async replaceContent(contentId: string, data: Uint8Array): Promise<void> {
+    this.apply({ type: 'replaceContent', contentId, data });
+  }
+
+  async truncateContent(contentId: string, size: number): Promise<void> {
+    this.apply({ type: 'truncateContent', contentId, size });
+  }
+
+  async copyContent(from: string, to: string): Promise<void> {
+    this.apply({ type: 'copyContent', from, to });
+  }
+
+  async deleteContent(contentId: string): Promise<void> {
+    this.apply({ type: 'deleteContent', contentId });
+  }
+
+  async listContent(): Promise<string[]> {
+    return [...this.contents.keys()];
+  }
+
+  // ops are applied synchronously, so no other call can observe a partial
+  // commit
+  async commit(ops: StorageOp[]): Promise<void> {
+    for (const op of ops) this.apply(op);
+  }
+
+  transaction(): Transaction {
+    return new Transaction(this);
+  }
+
+  async clear(): Promise<void> {
+    this.entries.clear();
+    this.contents.clear();
+  }
+
+  private filter(match: (e: FileEntry) => boolean): FileEntry[] {
+    const out: FileEntry[] = [];
+    for (const e of this.entries.values()) if (match(e)) out.push({ ...e });
+    return out;
+  }
+
+  private apply(op: StorageOp): void {
+    switch (op.type) {
+      case 'put':
+        this.entries.set(op.entry.path, { ...op.entry });
+        break;
+      case 'delete':
+        this.entries.delete(op.path);
+        break;
+      case 'writeContent': {
+        let bytes = this.contents.get(op.contentId) ?? new Uint8Array();
+        const end = op.position + op.data.byteLength;
+        if (end > bytes.length) {
+          const grown = new Uint8Array(end);
+          grown.set(bytes, 0);
+          bytes = grown;
+        }
+        bytes.set(op.data, op.position);
+        this.contents.set(op.contentId, bytes);
+        break;
+      }
+      case 'replaceContent':
+        this.contents.set(op.contentId, new Uint8Array(op.data));
+        break;
+      case 'truncateContent': {
+        const prev = this.contents.get(op.contentId);
+        if (prev && prev.length > op.size) {
+          this.contents.set(op.contentId, prev.slice(0, op.size));
+        }
+        break;
+      }
+      case 'copyContent': {
+        const bytes = this.contents.get(op.from);
+        if (bytes) this.contents.set(op.to, bytes.slice());
+        else this.contents.delete(op.to);
+        break;
+      }
+      case 'deleteContent':
+        this.contents.delete(op.contentId);
+        break;
+    }
+  }
+}
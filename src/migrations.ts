@@ -0,0 +1,99 @@
+import { SystemError } from './errors';
+
+/**
+ * One schema step of an IndexedDB database. When a database is opened below
+ * `version`, `upgrade` runs inside the versionchange transaction, after every
+ * earlier step. Steps may create or delete stores and indexes and rewrite
+ * records through `tx`; they must not await anything but IndexedDB requests.
+ */
+export interface Migration {
+  version: number;
+  description?: string;
+  upgrade(db: IDBDatabase, tx: IDBTransaction): void;
+}
+
+export interface OpenDatabaseOptions {
+  // another connection (usually an older tab) keeps the upgrade waiting;
+  // returning an error fails the open with it instead of waiting
+  onBlocked?: () => Error | void;
+  // this connection was closed so that another tab can upgrade
+  onVersionChange?: () => void;
+}
+
+// Error for an open that another connection keeps from upgrading `name`
+export function blockedError(name: string): SystemError {
+  return new SystemError('EBUSY', 'open', {
+    detail: `upgrade of '${name}' blocked by a connection of another tab`,
+  });
+}
+
+export function latestVersion(migrations: readonly Migration[]): number {
+  return migrations.length ? migrations[migrations.length - 1].version : 1;
+}
+
+function assertOrdered(name: string, migrations: readonly Migration[]): void {
+  for (let i = 1; i < migrations.length; i++) {
+    if (migrations[i].version <= migrations[i - 1].version) {
+      throw new Error(
+        `Migrations of '${name}' must have strictly increasing versions`
+      );
+    }
+  }
+}
+
+/**
+ * Open `name` at the latest version of `migrations`, running the pending
+ * steps in order. The returned connection closes itself when another tab
+ * asks for a newer version, so upgrades never hang on us.
+ */
+export function openDatabase(
+  name: string,
+  migrations: readonly Migration[],
+  options: OpenDatabaseOptions = {}
+): Promise<IDBDatabase> {
+  assertOrdered(name, migrations);
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(name, latestVersion(migrations));
+
+    let failed = false;
+    request.onerror = () => reject(request.error);
+    request.onblocked = () => {
+      const error = options.onBlocked?.();
+      if (!error) return;
+      failed = true;
+      reject(error);
+    };
+    request.onupgradeneeded = (event) => {
+      const db = request.result;
+      const tx = request.transaction as IDBTransaction;
+      for (const migration of migrations) {
+        if (migration.version > event.oldVersion) migration.upgrade(db, tx);
+      }
+    };
+    request.onsuccess = () => {
+      const db = request.result;
+      // opened once the other connection went away, after we gave up
+      if (failed) {
+        db.close();
+        return;
+      }
+      db.onversionchange = () => {
+        db.close();
+        options.onVersionChange?.();
+      };
+      resolve(db);
+    };
+  });
+}
+
+// Create an index unless a previous (pre-migration) build already did
+export function ensureIndex(
+  store: IDBObjectStore,
+  name: string,
+  keyPath: string | string[],
+  options?: IDBIndexParameters
+): void {
+  if (!store.indexNames.contains(name)) {
+    store.createIndex(name, keyPath, options);
+  }
+}
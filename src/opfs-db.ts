@@ -0,0 +1,658 @@
+import { Database, CHUNK_SIZE } from './db';
+import { ErrorCode, SystemError } from './errors';
+import {
+  FileEntry,
+  newContentId,
+  StorageBackend,
+  StorageOp,
+  Transaction,
+} from './storage';
+
+const DEFAULT_NAME = 'FileSystemOPFS';
+
+// OPFS files holding content set aside while a commit is in progress
+const BACKUP_SUFFIX = '.undo';
+
+// Subset of FileSystemSyncAccessHandle (only typed in the webworker lib)
+interface SyncAccessHandle {
+  read(buffer: Uint8Array, options?: { at?: number }): number;
+  write(buffer: Uint8Array, options?: { at?: number }): number;
+  truncate(size: number): void;
+  getSize(): number;
+  flush(): void;
+  close(): void;
+}
+
+type ContentRequest =
+  | {
+      id: number;
+      op: 'read';
+      contentId: string;
+      position: number;
+      length: number;
+    }
+  | {
+      id: number;
+      op: 'write';
+      contentId: string;
+      position: number;
+      data: Uint8Array;
+    }
+  | { id: number; op: 'replace'; contentId: string; data: Uint8Array }
+  | { id: number; op: 'truncate'; contentId: string; size: number }
+  | { id: number; op: 'copy'; from: string; to: string }
+  | { id: number; op: 'size'; contentId: string }
+  // set the content aside under `backup`: moved, or copied with `keep`
+  | {
+      id: number;
+      op: 'backup';
+      contentId: string;
+      backup: string;
+      keep: boolean;
+    }
+  // put `backup` back in place of the content (none: remove the content)
+  | { id: number; op: 'restore'; contentId: string; backup: string }
+  | { id: number; op: 'delete'; contentId: string }
+  | { id: number; op: 'list' }
+  | { id: number; op: 'clear' }
+  | { id: number; op: 'ping' };
+
+type ContentResponse = {
+  id: number;
+  data?: Uint8Array | number | string[];
+  error?: string;
+  // errno code the failure maps to, from the DOMException name
+  code?: ErrorCode;
+};
+
+// Omit distributes over the union so each request keeps its own fields
+type DistributiveOmit<T, K extends keyof T> = T extends unknown
+  ? Omit<T, K>
+  : never;
+
+interface ContentPort {
+  onmessage: ((ev: MessageEvent) => void) | null;
+  // only set on a Worker: it failed to start or threw outside a request
+  onerror?: ((ev: ErrorEvent) => void) | null;
+  postMessage(message: unknown, transfer: Transferable[]): void;
+}
+
+/**
+ * Serves content requests against one OPFS directory (one file per content
+ * id). Uses sync access handles when running in a dedicated worker and
+ * falls back to writable streams elsewhere. Requests run one at a time
+ * since sync access handles are exclusive.
+ *
+ * Must stay self-contained: it is serialized with Function#toString to boot
+ * the worker.
+ */
+function serveOpfsContent(port: ContentPort, dirName: string): void {
+  let dirHandle: Promise<FileSystemDirectoryHandle> | null = null;
+  const dir = () => {
+    if (!dirHandle) {
+      dirHandle = navigator.storage
+        .getDirectory()
+        .then((root) => root.getDirectoryHandle(dirName, { create: true }));
+    }
+    return dirHandle;
+  };
+  const canSync =
+    typeof (globalThis as { WorkerGlobalScope?: unknown }).WorkerGlobalScope !==
+      'undefined' &&
+    typeof FileSystemFileHandle !== 'undefined' &&
+    'createSyncAccessHandle' in FileSystemFileHandle.prototype;
+  const isNotFound = (e: unknown) =>
+    !!e && (e as { name?: string }).name === 'NotFoundError';
+  const codes: Record<string, ErrorCode> = {
+    NotFoundError: 'ENOENT',
+    NotAllowedError: 'EACCES',
+    SecurityError: 'EACCES',
+    NoModificationAllowedError: 'EBUSY',
+    InvalidStateError: 'EBUSY',
+    QuotaExceededError: 'ENOSPC',
+    TypeMismatchError: 'EISDIR',
+  };
+
+  const fileHandle = async (contentId: string, create: boolean) => {
+    try {
+      return await (await dir()).getFileHandle(contentId, { create });
+    } catch (e) {
+      if (!create && isNotFound(e)) return null;
+      throw e;
+    }
+  };
+
+  const withSync = async <T>(
+    file: FileSystemFileHandle,
+    fn: (h: SyncAccessHandle) => T | Promise<T>
+  ): Promise<T> => {
+    const h = (await (
+      file as unknown as {
+        createSyncAccessHandle(): Promise<SyncAccessHandle>;
+      }
+    ).createSyncAccessHandle()) as SyncAccessHandle;
+    try {
+      return await fn(h);
+    } finally {
+      h.flush();
+      h.close();
+    }
+  };
+
+  const write = async (
+    contentId: string,
+    position: number,
+    data: Uint8Array,
+    replace: boolean
+  ) => {
+    const file = (await fileHandle(contentId, true)) as FileSystemFileHandle;
+    if (canSync) {
+      await withSync(file, (h) => {
+        if (replace) h.truncate(0);
+        // writing past the end extends the file with zeros
+        h.write(data, { at: position });
+      });
+      return;
+    }
+    const w = await file.createWritable({ keepExistingData: !replace });
+    await w.write({ type: 'write', position, data: data as BufferSource });
+    await w.close();
+  };
+
+  const remove = async (contentId: string) => {
+    try {
+      await (await dir()).removeEntry(contentId);
+    } catch (e) {
+      if (!isNotFound(e)) throw e;
+    }
+  };
+
+  // replace `to` with a copy of `from`, one slice at a time
+  const copy = async (from: string, to: string) => {
+    if (from === to) return;
+    const src = await fileHandle(from, false);
+    if (!src) return remove(to);
+    const dest = (await fileHandle(to, true)) as FileSystemFileHandle;
+    if (!canSync) {
+      // the blob is streamed into the file, not loaded
+      const w = await dest.createWritable({ keepExistingData: false });
+      await w.write(await src.getFile());
+      await w.close();
+      return;
+    }
+    await withSync(src, (s) =>
+      withSync(dest, (d) => {
+        d.truncate(0);
+        const buffer = new Uint8Array(1024 * 1024);
+        const size = s.getSize();
+        for (let at = 0; at < size; ) {
+          const n = s.read(buffer, { at });
+          if (!n) break;
+          d.write(buffer.subarray(0, n), { at });
+          at += n;
+        }
+      })
+    );
+  };
+
+  // size in bytes, -1 when the content does not exist
+  const size = async (contentId: string) => {
+    const file = await fileHandle(contentId, false);
+    if (!file) return -1;
+    if (canSync) return withSync(file, (h) => h.getSize());
+    return (await file.getFile()).size;
+  };
+
+  // move `from` over `to`; copied where handles cannot move
+  const rename = async (from: string, to: string) => {
+    const file = await fileHandle(from, false);
+    await remove(to);
+    if (!file) return;
+    const movable = file as unknown as { move?(name: string): Promise<void> };
+    if (typeof movable.move === 'function') {
+      await movable.move(to);
+      return;
+    }
+    await copy(from, to);
+    await remove(from);
+  };
+
+  const names = async () => {
+    const out: string[] = [];
+    for await (const key of (
+      (await dir()) as unknown as { keys(): AsyncIterable<string> }
+    ).keys()) {
+      out.push(key);
+    }
+    return out;
+  };
+
+  const handle = async (
+    msg: ContentRequest
+  ): Promise<Uint8Array | number | string[] | undefined> => {
+    switch (msg.op) {
+      case 'read': {
+        const out = new Uint8Array(Math.max(0, msg.length));
+        const file = await fileHandle(msg.contentId, false);
+        if (!file || !out.length) return out;
+        if (canSync) {
+          await withSync(file, (h) => h.read(out, { at: msg.position }));
+          return out;
+        }
+        const blob = (await file.getFile()).slice(
+          msg.position,
+          msg.position + out.length
+        );
+        out.set(new Uint8Array(await blob.arrayBuffer()));
+        return out;
+      }
+      case 'write':
+        await write(msg.contentId, msg.position, msg.data, false);
+        return undefined;
+      case 'replace':
+        await write(msg.contentId, 0, msg.data, true);
+        return undefined;
+      case 'truncate': {
+        const file = await fileHandle(msg.contentId, false);
+        if (!file) return undefined;
+        if (canSync) {
+          await withSync(file, (h) => {
+            if (h.getSize() > msg.size) h.truncate(msg.size);
+          });
+          return undefined;
+        }
+        if ((await file.getFile()).size <= msg.size) return undefined;
+        const w = await file.createWritable({ keepExistingData: true });
+        await w.truncate(msg.size);
+        await w.close();
+        return undefined;
+      }
+      case 'copy':
+        await copy(msg.from, msg.to);
+        return undefined;
+      case 'delete':
+        await remove(msg.contentId);
+        return undefined;
+      case 'list':
+        return names();
+      case 'clear': {
+        const d = await dir();
+        for (const key of await names())
+          await d.removeEntry(key, { recursive: true });
+        return undefined;
+      }
+      case 'size':
+        return size(msg.contentId);
+      case 'backup':
+        if (msg.keep) await copy(msg.contentId, msg.backup);
+        else await rename(msg.contentId, msg.backup);
+        return undefined;
+      case 'restore':
+        await rename(msg.backup, msg.contentId);
+        return undefined;
+      case 'ping':
+        return undefined;
+    }
+  };
+
+  let queue: Promise<unknown> = Promise.resolve();
+  port.onmessage = (ev: MessageEvent) => {
+    const msg = ev.data as ContentRequest;
+    queue = queue
+      .then(() => handle(msg))
+      .then(
+        (data) => {
+          const res: ContentResponse = { id: msg.id, data };
+          port.postMessage(
+            res,
+            data instanceof Uint8Array ? [data.buffer] : []
+          );
+        },
+        (e) => {
+          const res: ContentResponse = {
+            id: msg.id,
+            error: String((e && e.message) || e),
+            code: (e && codes[e.name]) || 'EIO',
+          };
+          port.postMessage(res, []);
+        }
+      );
+  };
+}
+
+// Run the content server in a dedicated worker when we can spawn one, or in
+// the current realm behind a MessageChannel otherwise (e.g. already inside
+// a worker, where sync access handles are directly available).
+function connect(dirName: string): ContentPort {
+  const inWorker =
+    typeof (globalThis as { WorkerGlobalScope?: unknown }).WorkerGlobalScope !==
+    'undefined';
+  if (!inWorker && typeof Worker !== 'undefined') {
+    const source = `(${serveOpfsContent.toString()})(self, ${JSON.stringify(
+      dirName
+    )});`;
+    const url = URL.createObjectURL(
+      new Blob([source], { type: 'text/javascript' })
+    );
+    return new Worker(url);
+  }
+  const channel = new MessageChannel();
+  serveOpfsContent(channel.port1, dirName);
+  return channel.port2;
+}
+
+/**
+ * Backend keeping file bytes in the Origin Private File System (one OPFS file
+ * per content id) and metadata in IndexedDB.
+ *
+ * Metadata ops commit atomically. File bytes cannot join that transaction, so
+ * content writes are flushed before the metadata commit, and undone if it
+ * fails, and content deletes run after it. Only a page unloaded in the middle
+ * of a commit can leave changed bytes under the old metadata (or unreferenced
+ * bytes behind); metadata never points at missing bytes.
+ */
+export class OpfsDatabase implements StorageBackend {
+  private meta: Database;
+  private port: ContentPort | null = null;
+  private nextId = 1;
+  private pending = new Map<
+    number,
+    {
+      resolve: (data?: Uint8Array | number | string[]) => void;
+      reject: (e: Error) => void;
+      syscall: string;
+    }
+  >();
+  // set once the worker has failed; every later call is rejected with it
+  private failure: SystemError | null = null;
+
+  constructor(readonly name: string = DEFAULT_NAME) {
+    this.meta = new Database(name);
+  }
+
+  static isSupported(): boolean {
+    return typeof globalThis.navigator?.storage?.getDirectory === 'function';
+  }
+
+  async init(): Promise<void> {
+    if (!OpfsDatabase.isSupported())
+      throw new SystemError('ENOSYS', 'open', {
+        detail: 'Origin Private File System is not available',
+      });
+    await this.meta.init();
+    if (this.port) return;
+    this.failure = null;
+    try {
+      this.port = connect(this.name);
+    } catch (e) {
+      throw this.fail(String((e as Error)?.message ?? e));
+    }
+    this.port.onmessage = (ev: MessageEvent) => {
+      const res = ev.data as ContentResponse;
+      const waiter = this.pending.get(res.id);
+      if (!waiter) return;
+      this.pending.delete(res.id);
+      if (res.error)
+        waiter.reject(
+          new SystemError(res.code ?? 'EIO', waiter.syscall, {
+            detail: res.error,
+          })
+        );
+      else waiter.resolve(res.data);
+    };
+    this.port.onerror = (ev: ErrorEvent) => {
+      ev.preventDefault();
+      this.fail(ev.message || 'worker error');
+    };
+    // a worker that cannot start (CSP, missing APIs) fails this round trip
+    // instead of leaving every later call waiting
+    try {
+      await this.call({ op: 'ping' });
+    } catch (e) {
+      (this.port as { terminate?: () => void }).terminate?.();
+      this.port = null;
+      throw e;
+    }
+  }
+
+  async put(entry: FileEntry): Promise<void> {
+    return this.meta.put(entry);
+  }
+
+  async get(path: string): Promise<FileEntry | undefined> {
+    return this.meta.get(path);
+  }
+
+  async delete(path: string): Promise<void> {
+    return this.meta.delete(path);
+  }
+
+  async getByParentPath(parentPath: string): Promise<FileEntry[]> {
+    return this.meta.getByParentPath(parentPath);
+  }
+
+  async getAll(): Promise<FileEntry[]> {
+    return this.meta.getAll();
+  }
+
+  async getByHardLinkKey(key: string): Promise<FileEntry[]> {
+    return this.meta.getByHardLinkKey(key);
+  }
+
+  async readContent(
+    contentId: string,
+    position: number,
+    length: number
+  ): Promise<Uint8Array> {
+    const data = await this.call({ op: 'read', contentId, position, length });
+    return (
+      (data as Uint8Array | undefined) ?? new Uint8Array(Math.max(0, length))
+    );
+  }
+
+  async writeContent(
+    contentId: string,
+    position: number,
+    data: Uint8Array
+  ): Promise<void> {
+    await this.call({ op: 'write', contentId, position, data });
+  }
+
+  async replaceContent(contentId: string, data: Uint8Array): Promise<void> {
+    await this.call({ op: 'replace', contentId, data });
+  }
+
+  async truncateContent(contentId: string, size: number): Promise<void> {
+    await this.call({ op: 'truncate', contentId, size });
+  }
+
+  async copyContent(from: string, to: string): Promise<void> {
+    await this.call({ op: 'copy', from, to });
+  }
+
+  async deleteContent(contentId: string): Promise<void> {
+    await this.call({ op: 'delete', contentId });
+  }
+
+  // Every OPFS file, set-aside copies left by an interrupted commit included.
+  // Waits for the commits in progress in any tab, whose new bytes are not
+  // referenced yet.
+  async listContent(): Promise<string[]> {
+    return this.withCommitLock('exclusive', async () => {
+      return (await this.call({ op: 'list' })) as string[];
+    });
+  }
+
+  // Content ops run first, each recording how to undo it: the bytes a range
+  // write overwrites are kept in memory, a file replaced or truncated is set
+  // aside in OPFS. If any op or the metadata commit fails, the content is
+  // put back before the error is rethrown.
+  async commit(ops: StorageOp[]): Promise<void> {
+    return this.withCommitLock('shared', () => this.commitOps(ops));
+  }
+
+  // Web Locks ship wherever OPFS does; without them (tests) there is no other
+  // tab to wait for
+  private async withCommitLock<T>(
+    mode: LockMode,
+    fn: () => Promise<T>
+  ): Promise<T> {
+    const locks = globalThis.navigator?.locks;
+    if (!locks) return fn();
+    return locks.request(
+      `file-system-browser:commit:${this.name}`,
+      { mode },
+      fn
+    );
+  }
+
+  private async commitOps(ops: StorageOp[]): Promise<void> {
+    const deletes: string[] = [];
+    const metaOps: StorageOp[] = [];
+    const undo: Array<() => Promise<unknown>> = [];
+    const backups: string[] = [];
+    const setAside = async (contentId: string, keep: boolean) => {
+      const backup = `${contentId}.${newContentId()}${BACKUP_SUFFIX}`;
+      await this.call({ op: 'backup', contentId, backup, keep });
+      backups.push(backup);
+      undo.push(() => this.call({ op: 'restore', contentId, backup }));
+    };
+    try {
+      for (const op of ops) {
+        switch (op.type) {
+          case 'put':
+          case 'delete':
+            metaOps.push(op);
+            break;
+          case 'writeContent':
+            undo.push(await this.saveRange(op));
+            await this.writeContent(op.contentId, op.position, op.data);
+            break;
+          case 'replaceContent':
+            await setAside(op.contentId, false);
+            await this.replaceContent(op.contentId, op.data);
+            break;
+          case 'truncateContent':
+            await setAside(op.contentId, true);
+            await this.truncateContent(op.contentId, op.size);
+            break;
+          case 'copyContent':
+            await setAside(op.to, false);
+            await this.copyContent(op.from, op.to);
+            break;
+          case 'deleteContent':
+            deletes.push(op.contentId);
+            break;
+        }
+      }
+      await this.meta.commit(metaOps);
+    } catch (e) {
+      for (const step of undo.reverse()) await step().catch(() => undefined);
+      throw e;
+    }
+    for (const backup of backups) await this.deleteContent(backup);
+    for (const contentId of deletes) await this.deleteContent(contentId);
+  }
+
+  // Undo step of a range write: the bytes it overwrites and the old size
+  private async saveRange(op: {
+    contentId: string;
+    position: number;
+    data: Uint8Array;
+  }): Promise<() => Promise<void>> {
+    const { contentId, position } = op;
+    const size = (await this.call({ op: 'size', contentId })) as number;
+    if (size < 0) return () => this.deleteContent(contentId);
+    const length = Math.max(0, Math.min(op.data.byteLength, size - position));
+    const old = await this.readContent(contentId, position, length);
+    return async () => {
+      await this.writeContent(contentId, position, old);
+      await this.truncateContent(contentId, size);
+    };
+  }
+
+  transaction(): Transaction {
+    return new Transaction(this);
+  }
+
+  async clear(): Promise<void> {
+    await this.meta.clear();
+    await this.call({ op: 'clear' });
+  }
+
+  // Reject the calls waiting on a worker that is gone
+  private fail(detail: string): SystemError {
+    this.failure = new SystemError('EIO', 'connect', {
+      detail: `OPFS worker failed: ${detail}`,
+    });
+    for (const waiter of this.pending.values()) waiter.reject(this.failure);
+    this.pending.clear();
+    return this.failure;
+  }
+
+  private call(
+    req: DistributiveOmit<ContentRequest, 'id'>
+  ): Promise<Uint8Array | number | string[] | undefined> {
+    if (this.failure) return Promise.reject(this.failure);
+    if (!this.port)
+      return Promise.reject(
+        new SystemError('EINVAL', req.op, {
+          detail: 'database not initialized',
+        })
+      );
+    const id = this.nextId++;
+    const port = this.port;
+    return new Promise((resolve, reject) => {
+      this.pending.set(id, { resolve, reject, syscall: req.op });
+      port.postMessage({ ...req, id }, []);
+    });
+  }
+}
+
+export interface MigrateToOpfsOptions {
+  // IndexedDB volume to read from (defaults to the default `FileSystemDB`)
+  from?: string | StorageBackend;
+  // OPFS volume to write into (defaults to `FileSystemOPFS`)
+  to?: string | OpfsDatabase;
+  // clear the source volume once everything has been copied
+  deleteSource?: boolean;
+  onProgress?: (copied: number, total: number) => void;
+}
+
+/**
+ * Copy every entry and its bytes from an existing volume into an OPFS
+ * volume. Content ids are kept, so hard links stay shared. Bytes are copied
+ * in CHUNK_SIZE slices to keep memory flat; metadata is committed at the end
+ * in one transaction.
+ */
+export async function migrateToOpfs(
+  options: MigrateToOpfsOptions = {}
+): Promise<OpfsDatabase> {
+  const source =
+    typeof options.from === 'object'
+      ? options.from
+      : new Database(options.from);
+  const target =
+    typeof options.to === 'object' ? options.to : new OpfsDatabase(options.to);
+  await source.init();
+  await target.init();
+  const entries = await source.getAll();
+  const copied = new Set<string>();
+  const tx = target.transaction();
+  for (let i = 0; i < entries.length; i++) {
+    const entry = entries[i];
+    if (entry.contentId && !copied.has(entry.contentId)) {
+      copied.add(entry.contentId);
+      for (let pos = 0; pos < entry.size; pos += CHUNK_SIZE) {
+        const len = Math.min(CHUNK_SIZE, entry.size - pos);
+        const bytes = await source.readContent(entry.contentId, pos, len);
+        await target.writeContent(entry.contentId, pos, bytes);
+      }
+    }
+    tx.put(entry);
+    options.onProgress?.(i + 1, entries.length);
+  }
+  await tx.commit();
+  if (options.deleteSource) await source.clear();
+  return target;
+}
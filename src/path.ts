@@ -0,0 +1,122 @@
+import { SystemError } from './errors';
+import { FileEntry } from './storage';
+
+/**
+ * POSIX path helpers. Every key stored in the files store is in the
+ * canonical form produced by `normalize`: absolute, no `.`/`..` components,
+ * no duplicate or trailing slashes.
+ */
+
+// Components of `path` in order, keeping `.` and `..` (empty ones dropped)
+export function components(path: string): string[] {
+  return path.split('/').filter((c) => c !== '');
+}
+
+// Canonical absolute form; `..` above the root stays at the root
+export function normalize(path: string): string {
+  const out: string[] = [];
+  for (const c of components(path)) {
+    if (c === '.') continue;
+    if (c === '..') out.pop();
+    else out.push(c);
+  }
+  return '/' + out.join('/');
+}
+
+export function join(dir: string, name: string): string {
+  return dir === '/' ? '/' + name : dir + '/' + name;
+}
+
+// Parent of a canonical path; '' for the root
+export function parentOf(path: string): string {
+  path = normalize(path);
+  if (path === '/') return '';
+  const i = path.lastIndexOf('/');
+  return i === 0 ? '/' : path.slice(0, i);
+}
+
+// Last component of a canonical path; '' for the root
+export function baseOf(path: string): string {
+  path = normalize(path);
+  if (path === '/') return '';
+  return path.slice(path.lastIndexOf('/') + 1);
+}
+
+// Whether canonical `path` lies strictly below canonical `dir`
+export function isInside(dir: string, path: string): boolean {
+  return dir === '/' ? path !== '/' : path.startsWith(dir + '/');
+}
+
+// Lexical absolute form of a symlink target; relative targets are taken from
+// the directory holding the link
+export function linkTargetOf(linkPath: string, target: string): string {
+  if (target.startsWith('/')) return normalize(target);
+  return normalize(join(parentOf(linkPath) || '/', target));
+}
+
+// Linux SYMLOOP_MAX: symlinks followed while resolving one path
+const MAX_SYMLINKS = 40;
+
+export type PathStore = {
+  get(path: string): Promise<FileEntry | undefined>;
+};
+
+// Walk `path` one component at a time from the root, following symlinks in
+// intermediate components and, with `followLast`, in the final one. `.` and
+// `..` are applied to the directory actually reached, as POSIX does, and a
+// trailing slash requires a directory. Every directory looked into must pass
+// `searchable` (EACCES otherwise). Returns the canonical path reached;
+// `entry` is undefined when nothing exists there yet.
+export async function resolvePath(
+  store: PathStore,
+  path: string,
+  followLast: boolean,
+  syscall: string,
+  searchable?: (dir: FileEntry) => boolean
+): Promise<{ path: string; entry?: FileEntry }> {
+  const parts = components(path);
+  if (path.endsWith('/') && parts.length) parts.push('.');
+  const root = await store.get('/');
+  let current = '/';
+  let entry = root;
+  let links = 0;
+  while (parts.length) {
+    if (entry?.type !== 'directory')
+      throw new SystemError('ENOTDIR', syscall, { path });
+    const name = parts.shift() as string;
+    if (name === '.') continue;
+    if (searchable && !searchable(entry))
+      throw new SystemError('EACCES', syscall, { path });
+    if (name === '..') {
+      current = parentOf(current) || '/';
+      entry = await store.get(current);
+      continue;
+    }
+    const next = join(current, name);
+    const e = await store.get(next);
+    if (!e) {
+      // nothing below a missing component exists, so `..` cannot climb out
+      if (parts.includes('..'))
+        throw new SystemError('ENOENT', syscall, { path });
+      return {
+        path: normalize(join(next, parts.join('/'))),
+        entry: undefined,
+      };
+    }
+    if (e.type === 'symlink' && (parts.length || followLast)) {
+      if (++links > MAX_SYMLINKS)
+        throw new SystemError('ELOOP', syscall, { path });
+      const target = e.linkTarget;
+      if (!target) throw new SystemError('EINVAL', syscall, { path: next });
+      parts.unshift(...components(target));
+      if (target.startsWith('/')) {
+        current = '/';
+        entry = root;
+      }
+      continue;
+    }
+    current = next;
+    entry = e;
+  }
+  return { path: current, entry };
+}
@@ -1,3 +1,5 @@
+import { blockedError, Migration, openDatabase } from './migrations';
+
 export type SortOrder = 'asc' | 'desc';
 export type SortMode = 'name' | 'createdAt' | 'modifiedAt' | 'size' | 'manual';
 
@@ -20,34 +22,44 @@ export interface DirSortConfig {
 }
 
 const DB_NAME = 'FileSystemSortDB';
-const DB_VERSION = 1;
 const STORE_NAME = 'sort';
 
+// Schema history of FileSystemSortDB. Append new steps; never edit shipped ones.
+const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'sort configs keyed by directory',
+    upgrade(db) {
+      db.createObjectStore(STORE_NAME, { keyPath: 'dir' });
+    },
+  },
+];
+
 class SortDatabase {
-  private db: IDBDatabase | null = null;
+  private db: Promise<IDBDatabase> | null = null;
 
-  async init(): Promise<void> {
-    if (this.db) return;
-    await new Promise<void>((resolve, reject) => {
-      const req = indexedDB.open(DB_NAME, DB_VERSION);
-      req.onerror = () => reject(req.error);
-      req.onsuccess = () => {
-        this.db = req.result;
-        resolve();
-      };
-      req.onupgradeneeded = (ev) => {
-        const db = (ev.target as IDBOpenDBRequest).result;
-        if (!db.objectStoreNames.contains(STORE_NAME)) {
-          db.createObjectStore(STORE_NAME, { keyPath: 'dir' });
-        }
-      };
-    });
+  // (Re)open lazily; the connection closes itself when another tab upgrades
+  private init(): Promise<IDBDatabase> {
+    if (!this.db) {
+      const opening = openDatabase(DB_NAME, MIGRATIONS, {
+        // fail instead of hanging until the other tab closes
+        onBlocked: () => blockedError(DB_NAME),
+        onVersionChange: () => {
+          if (this.db === opening) this.db = null;
+        },
+      });
+      opening.catch(() => {
+        if (this.db === opening) this.db = null;
+      });
+      this.db = opening;
+    }
+    return this.db;
   }
 
   async get(dir: string): Promise<DirSortConfig | undefined> {
-    await this.init();
+    const db = await this.init();
     return new Promise((resolve, reject) => {
-      const tx = this.db!.transaction([STORE_NAME], 'readonly');
+      const tx = db.transaction([STORE_NAME], 'readonly');
       const store = tx.objectStore(STORE_NAME);
       const req = store.get(dir);
       req.onerror = () => reject(req.error);
@@ -56,9 +68,9 @@ class SortDatabase {
   }
 
   async put(cfg: DirSortConfig): Promise<void> {
-    await this.init();
+    const db = await this.init();
     return new Promise((resolve, reject) => {
-      const tx = this.db!.transaction([STORE_NAME], 'readwrite');
+      const tx = db.transaction([STORE_NAME], 'readwrite');
       const store = tx.objectStore(STORE_NAME);
       const req = store.put(cfg);
       req.onerror = () => reject(req.error);
@@ -67,9 +79,9 @@ class SortDatabase {
   }
 
   async delete(dir: string): Promise<void> {
-    await this.init();
+    const db = await this.init();
     return new Promise((resolve, reject) => {
-      const tx = this.db!.transaction([STORE_NAME], 'readwrite');
+      const tx = db.transaction([STORE_NAME], 'readwrite');
       const store = tx.objectStore(STORE_NAME);
       const req = store.delete(dir);
       req.onerror = () => reject(req.error);
@@ -5,6 +5,7 @@ import {
   type SortOrder,
   type IconPosition,
 } from './sort-db';
+import { normalize } from './path';
 
 export interface SortableEntry {
   path: string;
@@ -27,12 +28,8 @@ const DEFAULT_MODE: SortMode = 'name';
 const DEFAULT_ORDER: SortOrder = 'asc';
 
 function normDir(dir: string): string {
-  if (!dir) return '/';
-  let s = dir.trim();
-  if (!s.startsWith('/')) s = '/' + s;
-  // 去掉末尾多余的斜杠，保留根目录 '/'
-  if (s.length > 1 && s.endsWith('/')) s = s.replace(/\/+$/g, '');
-  return s;
+  // 与文件系统使用同一套规范化规则（处理 '.'、'..'、重复与末尾斜杠）
+  return normalize((dir || '').trim());
 }
 
 class SortService {
@@ -0,0 +1,205 @@
+export interface FileEntry {
+  path: string;
+  name: string;
+  type: 'file' | 'directory' | 'symlink';
+  size: number;
+  // key of the file bytes in the content store (shared by hard links)
+  contentId?: string;
+  mimeType?: string;
+  // symlink target (when type === 'symlink')
+  linkTarget?: string;
+  // hard link group key (all hard-linked files share the same key)
+  hardLinkKey?: string;
+  // permission bits (0o7777); entries written before permissions existed
+  // have none and read as 0o666 (files) or 0o777 (directories, symlinks)
+  mode?: number;
+  // owner and group; missing means 0
+  uid?: number;
+  gid?: number;
+  // birthtime and mtime (content or directory listing changed)
+  createdAt: number;
+  modifiedAt: number;
+  // atime and ctime (metadata changed); missing on entries written before
+  // they were tracked, which read them as `modifiedAt`
+  accessedAt?: number;
+  changedAt?: number;
+  parentPath: string;
+}
+
+// A single staged write; a list of them is committed in one transaction
+export type StorageOp =
+  | { type: 'put'; entry: FileEntry }
+  | { type: 'delete'; path: string }
+  | {
+      type: 'writeContent';
+      contentId: string;
+      position: number;
+      data: Uint8Array;
+    }
+  | { type: 'replaceContent'; contentId: string; data: Uint8Array }
+  | { type: 'truncateContent'; contentId: string; size: number }
+  // replace the bytes of `to` with those of `from`
+  | { type: 'copyContent'; from: string; to: string }
+  | { type: 'deleteContent'; contentId: string };
+
+/**
+ * Storage contract shared by every backend: a metadata store keyed by path
+ * plus a content store holding file bytes by content id.
+ */
+export interface StorageBackend {
+  // set when the storage is shared across tabs; volumes opened on backends
+  // with the same name exchange watch events
+  readonly name?: string;
+  init(): Promise<void>;
+  get(path: string): Promise<FileEntry | undefined>;
+  put(entry: FileEntry): Promise<void>;
+  delete(path: string): Promise<void>;
+  getByParentPath(parentPath: string): Promise<FileEntry[]>;
+  getByHardLinkKey(key: string): Promise<FileEntry[]>;
+  getAll(): Promise<FileEntry[]>;
+  clear(): Promise<void>;
+  // read `length` bytes at `position`; bytes never written read back as zeros
+  readContent(
+    contentId: string,
+    position: number,
+    length: number
+  ): Promise<Uint8Array>;
+  writeContent(
+    contentId: string,
+    position: number,
+    data: Uint8Array
+  ): Promise<void>;
+  replaceContent(contentId: string, data: Uint8Array): Promise<void>;
+  truncateContent(contentId: string, size: number): Promise<void>;
+  // replace the bytes of `to` with a copy of `from`, without holding the
+  // whole content in memory
+  copyContent(from: string, to: string): Promise<void>;
+  deleteContent(contentId: string): Promise<void>;
+  // ids of the stored content, including content no entry refers to any
+  // more; never an id whose commit is still in progress. Volumes on backends
+  // without it do not reclaim unreferenced content.
+  listContent?(): Promise<string[]>;
+  // apply all ops atomically: either every op is persisted or none is. A
+  // failed commit must leave nothing behind. Backends whose content cannot
+  // join the metadata transaction (OpfsDatabase) meet this by undoing the
+  // content ops, so only a page unloaded mid-commit can leave new bytes
+  // under the old metadata.
+  commit(ops: StorageOp[]): Promise<void>;
+  transaction(): Transaction;
+}
+
+export function newContentId(): string {
+  const c = globalThis.crypto;
+  if (c && typeof c.randomUUID === 'function') return c.randomUUID();
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+}
+
+// Copy the size, content and times of `entry` to the other names of its hard
+// link group after the shared bytes changed. Returns each sibling before and
+// after the update.
+export async function stageHardLinkSiblings(
+  tx: Transaction,
+  entry: FileEntry
+): Promise<Array<{ before: FileEntry; after: FileEntry }>> {
+  if (!entry.hardLinkKey) return [];
+  const updates: Array<{ before: FileEntry; after: FileEntry }> = [];
+  for (const s of await tx.getByHardLinkKey(entry.hardLinkKey)) {
+    if (s.path === entry.path || s.type !== 'file') continue;
+    const after: FileEntry = {
+      ...s,
+      size: entry.size,
+      contentId: entry.contentId,
+      mimeType: entry.mimeType,
+      modifiedAt: entry.modifiedAt,
+      changedAt: entry.changedAt,
+    };
+    tx.put(after);
+    if (s.contentId && s.contentId !== entry.contentId) {
+      tx.deleteContent(s.contentId);
+    }
+    updates.push({ before: s, after });
+  }
+  return updates;
+}
+
+/**
+ * Stages puts, deletes and content writes and commits them as one unit.
+ * Reads go through the staged changes, so later steps of a multi-entry
+ * operation see the effect of earlier ones before anything is persisted.
+ */
+export class Transaction {
+  private ops: StorageOp[] = [];
+  private staged = new Map<string, FileEntry | null>();
+  private hooks: Array<() => void> = [];
+  private committed = false;
+
+  constructor(private readonly database: StorageBackend) {}
+
+  async get(path: string): Promise<FileEntry | undefined> {
+    if (this.staged.has(path)) return this.staged.get(path) ?? undefined;
+    return this.database.get(path);
+  }
+
+  async getByParentPath(parentPath: string): Promise<FileEntry[]> {
+    const stored = await this.database.getByParentPath(parentPath);
+    return this.overlay(stored, (e) => e.parentPath === parentPath);
+  }
+
+  async getByHardLinkKey(key: string): Promise<FileEntry[]> {
+    const stored = await this.database.getByHardLinkKey(key);
+    return this.overlay(stored, (e) => e.hardLinkKey === key);
+  }
+
+  put(entry: FileEntry): void {
+    this.staged.set(entry.path, entry);
+    this.ops.push({ type: 'put', entry });
+  }
+
+  delete(path: string): void {
+    this.staged.set(path, null);
+    this.ops.push({ type: 'delete', path });
+  }
+
+  writeContent(contentId: string, position: number, data: Uint8Array): void {
+    this.ops.push({ type: 'writeContent', contentId, position, data });
+  }
+
+  replaceContent(contentId: string, data: Uint8Array): void {
+    this.ops.push({ type: 'replaceContent', contentId, data });
+  }
+
+  truncateContent(contentId: string, size: number): void {
+    this.ops.push({ type: 'truncateContent', contentId, size });
+  }
+
+  copyContent(from: string, to: string): void {
+    this.ops.push({ type: 'copyContent', from, to });
+  }
+
+  deleteContent(contentId: string): void {
+    this.ops.push({ type: 'deleteContent', contentId });
+  }
+
+  // Run `fn` once the transaction has been committed (e.g. to emit events)
+  onCommit(fn: () => void): void {
+    this.hooks.push(fn);
+  }
+
+  async commit(): Promise<void> {
+    if (this.committed) throw new Error('Transaction already committed');
+    this.committed = true;
+    await this.database.commit(this.ops);
+    for (const fn of this.hooks) fn();
+  }
+
+  private overlay(
+    stored: FileEntry[],
+    match: (e: FileEntry) => boolean
+  ): FileEntry[] {
+    const out = stored.filter((e) => !this.staged.has(e.path));
+    for (const e of this.staged.values()) {
+      if (e && match(e)) out.push(e);
+    }
+    return out;
+  }
+}